@@ -1,16 +1,98 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
+import { resolve } from 'path';
 import { CalicoWhiskerService } from './services/calico-whisker.js';
+import { FlowCollector } from './services/flow-collector.js';
+import { felixSnapshot, importFelixFlowLogs } from './services/felix-flow-log.js';
+import { FlowSnapshotSummary, readFlowSnapshot, summarizeSnapshot, writeFlowSnapshot } from './services/flow-snapshot.js';
+import { FlowLogStore } from './services/flow-store.js';
+import { FlowWatcher } from './services/flow-watcher.js';
+import { GRAPH_FORMATS, GraphFormat, buildServiceGraph, renderServiceGraph } from './services/service-graph.js';
+import { validateFlowQuery } from './services/whisker-query.js';
+import { loadKubeConfig } from './services/kube-api-client.js';
 import { KubernetesService } from './services/kubernetes.js';
 import { LogFilterService } from './services/log-filter.js';
+import {
+  BLOCKED_FLOW_COLUMNS,
+  CONTEXT_COLUMNS,
+  Column,
+  FLOW_LOG_COLUMNS,
+  NAMESPACE_SUMMARY_COLUMNS,
+  OUTPUT_FORMATS,
+  OutputFormat,
+  OutputView,
+  parseOutputFormat,
+  renderOutput,
+} from './services/output-format.js';
 
 const program = new Command();
 
 program
   .name('calico-whisker-mcp')
   .description('CLI for Calico Whisker MCP Server testing')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('--whisker-namespace <namespace>', 'Namespace of the Whisker service (env: WHISKER_NAMESPACE, default: calico-system)')
+  .option('--whisker-service <name>', 'Name of the Whisker service (env: WHISKER_SERVICE, default: whisker)')
+  .option('--whisker-service-port <port>', 'Port of the Whisker service (env: WHISKER_SERVICE_PORT, default: 8081)')
+  .option('--local-port <port>', 'Local port for the port-forward (env: WHISKER_LOCAL_PORT, default: 8081)')
+  .option('--transport <mode>', 'How to reach Whisker: auto, port-forward or api-proxy (env: WHISKER_TRANSPORT, default: auto)')
+  .option('--kube-context <context>', 'Kubernetes context for API calls (default: the kubeconfig\'s current-context, which is never modified)')
+  .option('--snapshot <file>', 'Read flows from a snapshot saved with `snapshot save` instead of Whisker (offline mode)')
+  .addOption(new Option('-o, --output <format>', 'Output format of data commands (default: json). Status messages go to stderr').choices(OUTPUT_FORMATS));
+
+function createCalicoService(kubeconfigPath?: string, context?: string): CalicoWhiskerService {
+  const options = program.opts();
+  const calicoService = new CalicoWhiskerService({
+    namespace: options.whiskerNamespace,
+    serviceName: options.whiskerService,
+    servicePort: options.whiskerServicePort !== undefined ? Number(options.whiskerServicePort) : undefined,
+    localPort: options.localPort !== undefined ? Number(options.localPort) : undefined,
+    transport: options.transport,
+  });
+  calicoService.useCluster(kubeconfigPath, context || options.kubeContext);
+  calicoService.setFlowStore(FlowLogStore.forCluster(resolveClusterName(kubeconfigPath, context)));
+  if (options.snapshot) {
+    const path = resolve(options.snapshot);
+    calicoService.useSnapshot(path, readFlowSnapshot(path));
+  }
+  return calicoService;
+}
+
+// Only the result goes to stdout, in the --output format, so it can be piped into other tools
+function printOutput<T>(view: OutputView<T>, format: OutputFormat = outputFormat()): void {
+  console.log(renderOutput(view, format));
+}
+
+function outputFormat(): OutputFormat {
+  return parseOutputFormat(program.opts().output);
+}
+
+// Policies and graphs are documents rather than records, so of the --output formats only json
+// applies to them; --format picks between their own formats
+function policyOrGraphFormat(command: string, format: string | undefined, fallback: string): string {
+  const output = program.opts().output as OutputFormat | undefined;
+  if (output !== undefined && output !== 'json') {
+    throw new Error(`${command} does not support --output ${output}; use --format instead`);
+  }
+  if (output === 'json' && format !== undefined && format !== 'json') {
+    throw new Error(`--output json conflicts with --format ${format}`);
+  }
+  return format ?? (output === 'json' ? 'json' : fallback);
+}
+
+// Flow history is kept per kube context, matching the MCP server's session names
+function resolveClusterName(kubeconfigPath?: string, context?: string): string {
+  const selected = context || program.opts().kubeContext;
+  if (selected) {
+    return selected;
+  }
+  try {
+    return loadKubeConfig(kubeconfigPath || new KubernetesService().getDefaultKubeconfigPath())['current-context'] || 'default';
+  } catch {
+    return 'default';
+  }
+}
 
 program
   .command('connect')
@@ -19,21 +101,48 @@ program
   .option('-k, --kubeconfig <path>', 'Path to kubeconfig file')
   .action(async (options) => {
     try {
+      const context = options.context || program.opts().kubeContext;
       const k8sService = new KubernetesService();
-      const calicoService = new CalicoWhiskerService();
+      const calicoService = createCalicoService(options.kubeconfig, context);
+
+      console.error('Connecting to Kubernetes cluster...');
+      await k8sService.connect(context, options.kubeconfig);
+
+      console.error('Setting up port-forwarding to Calico Whisker...');
+      await calicoService.setupPortForward(options.kubeconfig, context);
 
-      console.log('Connecting to Kubernetes cluster...');
-      await k8sService.connect(options.context, options.kubeconfig);
+      const connection = {
+        context: context || null,
+        transport: calicoService.getTransport(),
+        whiskerUrl: calicoService.getWhiskerUrl(),
+        localPort: calicoService.getTransport() === 'port-forward' ? calicoService.getLocalPort() : null,
+      };
+      printOutput({
+        data: connection,
+        records: [connection],
+        columns: [
+          { header: 'context', value: c => c.context },
+          { header: 'transport', value: c => c.transport },
+          { header: 'whisker_url', value: c => c.whiskerUrl },
+          { header: 'local_port', value: c => c.localPort },
+        ],
+      });
 
-      console.log('Setting up port-forwarding to Calico Whisker...');
-      await calicoService.setupPortForward(options.kubeconfig);
+      if (connection.transport === 'api-proxy') {
+        console.error('✅ Whisker is reachable through the Kubernetes API service proxy');
+        console.error(`Pass --transport api-proxy${context ? ` --kube-context ${context}` : ''} to other commands to use it`);
+        return;
+      }
 
-      console.log('✅ Successfully connected and set up port-forwarding');
-      console.log('Port-forward is running on localhost:8081');
+      console.error('✅ Successfully connected and set up port-forwarding');
+      console.error(`Port-forward is running on localhost:${calicoService.getLocalPort()}`);
+      if (calicoService.getLocalPort() !== calicoService.getConfig().localPort) {
+        console.error(`Pass --local-port ${calicoService.getLocalPort()} to other commands to use this port-forward`);
+      }
       
       // Keep the process running
       process.on('SIGINT', async () => {
-        console.log('\nStopping port-forward...');
+        console.error('\nStopping port-forward...');
         await calicoService.stopPortForward();
         process.exit(0);
       });
@@ -43,34 +152,148 @@ program
     }
   });
 
+program
+  .command('connection-status')
+  .description('Show the port-forward state and whether the Whisker endpoint is reachable')
+  .action(async () => {
+    try {
+      const calicoService = createCalicoService();
+      const status = await calicoService.getConnectionStatus();
+      
+      console.error(`Whisker endpoint: ${status.whiskerUrl}`);
+      console.error(`Reachable: ${status.lastHealthCheck?.healthy ? '✅ Yes' : `❌ No (${status.lastHealthCheck?.error})`}`);
+      if (status.recordedPortForward) {
+        const record = status.recordedPortForward;
+        console.error(`Port-forward: pid ${record.pid} → service/${record.serviceName} -n ${record.namespace} (started ${record.startedAt})`);
+      } else {
+        console.error('Port-forward: none recorded for this port');
+      }
+      const columns: Column<typeof status>[] = [
+        { header: 'state', value: s => s.state },
+        { header: 'transport', value: s => s.transport },
+        { header: 'whisker_url', value: s => s.whiskerUrl },
+        { header: 'healthy', value: s => s.lastHealthCheck ? String(s.lastHealthCheck.healthy) : '' },
+        { header: 'port_forward_pid', value: s => s.portForwardPid ?? s.recordedPortForward?.pid },
+        { header: 'offline_snapshot', value: s => s.offlineSnapshot?.path },
+      ];
+      printOutput({ data: status, records: [status], columns });
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
 program
   .command('logs')
   .description('Get flow logs with optional filtering')
   .option('-f, --filter <jq-filter>', 'JQ filter expression')
+  .option('-w, --where <json>', 'Structured filter as JSON, e.g. \'{"field":"action","op":"eq","value":"Deny"}\'')
   .option('-s, --start-time <time>', 'Start time (ISO 8601 format)')
   .option('-e, --end-time <time>', 'End time (ISO 8601 format)')
+  .option('-n, --namespace <namespace>', 'Only flows with this namespace as source or destination')
+  .option('-a, --action <action>', 'Only flows with this action (Allow, Deny or Pass)')
+  .option('--sort-by <field>', 'Sort by time, bytes or packets')
+  .option('--sort-order <order>', 'Sort order: asc or desc (default: desc)')
+  .option('--page-size <number>', 'Maximum number of flows to fetch')
+  .option('-F, --follow', 'Keep running and print new matching flows as JSON lines, like kubectl logs -f')
+  .option('-i, --interval <seconds>', 'Seconds between polls in --follow mode', '5')
   .action(async (options) => {
     try {
-      const calicoService = new CalicoWhiskerService();
+      const calicoService = createCalicoService();
       const logFilterService = new LogFilterService();
 
-      console.log('Fetching flow logs...');
-      const logs = await calicoService.getFlowLogs();
-      
-      console.log(`Found ${logs.length} flow logs`);
-      
-      if (options.filter || options.startTime || options.endTime) {
-        console.log('Applying filters...');
-        const filteredLogs = await logFilterService.filterLogs(
-          logs,
-          options.filter,
-          options.startTime,
-          options.endTime
+      let filter: string | undefined = options.filter;
+      if (options.where) {
+        let where: unknown;
+        try {
+          where = JSON.parse(options.where);
+        } catch (error) {
+          console.error('❌ Error: --where is not valid JSON:', error instanceof Error ? error.message : String(error));
+          process.exit(1);
+        }
+        const structuredFilter = logFilterService.buildStructuredFilter(where);
+        filter = filter ? `${structuredFilter} | ${filter}` : structuredFilter;
+      }
+
+      if (options.follow) {
+        if (options.startTime || options.endTime) {
+          throw new Error('--start-time and --end-time cannot be combined with --follow');
+        }
+        if (outputFormat() !== 'json' && outputFormat() !== 'ndjson') {
+          throw new Error('--follow prints flows as JSON lines; use --output json or ndjson');
+        }
+        const watcher = new FlowWatcher(
+          calicoService,
+          logFilterService,
+          {
+            query: validateFlowQuery({ namespace: options.namespace, action: options.action }),
+            filter,
+            intervalSeconds: Number(options.interval),
+            includeExisting: true,
+          },
+          (flows) => flows.forEach(flow => console.log(JSON.stringify(flow)))
         );
-        console.log(`Filtered to ${filteredLogs.length} logs`);
-        console.log(JSON.stringify(filteredLogs, null, 2));
+        process.on('SIGINT', () => {
+          watcher.stop();
+          process.exit(0);
+        });
+        await watcher.start();
+        return;
+      }
+
+      console.error('Fetching flow logs...');
+      const logs = await calicoService.getFlowLogs(validateFlowQuery({
+        startTime: options.startTime,
+        endTime: options.endTime,
+        namespace: options.namespace,
+        action: options.action,
+        sortBy: options.sortBy,
+        sortOrder: options.sortOrder,
+        pageSize: options.pageSize !== undefined ? Number(options.pageSize) : undefined,
+      }));
+      
+      console.error(`Found ${logs.length} flow logs`);
+      
+      if (filter) {
+        console.error('Applying filters...');
+        const filteredLogs = await logFilterService.filterLogs(logs, filter);
+        console.error(`Filtered to ${filteredLogs.length} logs`);
+        printOutput({ data: filteredLogs, records: filteredLogs, columns: FLOW_LOG_COLUMNS });
       } else {
-        console.log(JSON.stringify(logs, null, 2));
+        printOutput({ data: logs, records: logs, columns: FLOW_LOG_COLUMNS });
+      }
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('collect')
+  .description('Poll Whisker and keep flow logs in the local history until interrupted')
+  .option('-i, --interval <seconds>', 'Seconds between polls (env: WHISKER_HISTORY_INTERVAL, default: 60)')
+  .action(async (options) => {
+    try {
+      const calicoService = createCalicoService();
+      const store = calicoService.getFlowStore()!;
+      const interval = options.interval !== undefined ? Number(options.interval) : FlowCollector.intervalFromEnv();
+      if (!Number.isFinite(interval) || interval <= 0) {
+        throw new Error(`Invalid interval: ${options.interval ?? interval} (expected a positive number of seconds)`);
+      }
+      const collector = new FlowCollector(calicoService, store, interval);
+
+      console.error(`Collecting flow logs into ${store.directory} every ${interval}s (Ctrl+C to stop)`);
+      process.on('SIGINT', () => {
+        const stats = store.getStats();
+        console.error(`\nStopped. History holds ${stats.records} records (${stats.oldestDay || '-'} to ${stats.newestDay || '-'})`);
+        process.exit(0);
+      });
+
+      while (true) {
+        const added = await collector.poll();
+        const lastError = collector.getLastError();
+        console.error(`${new Date().toISOString()} ${lastError ? `❌ ${lastError}` : `stored ${added} new flow logs`}`);
+        await new Promise(resolve => setTimeout(resolve, interval * 1000));
       }
     } catch (error) {
       console.error('❌ Error:', error instanceof Error ? error.message : String(error));
@@ -86,11 +309,11 @@ program
   .option('-d, --dest-name <name>', 'Filter by destination name')
   .action(async (options) => {
     try {
-      const calicoService = new CalicoWhiskerService();
+      const calicoService = createCalicoService();
       const logFilterService = new LogFilterService();
 
-      console.log('Fetching flow logs for denied staged policies...');
-      const logs = await calicoService.getFlowLogs();
+      console.error('Fetching flow logs for denied staged policies...');
+      const logs = await calicoService.getFlowLogs({ namespace: options.namespace });
       
       const filter = logFilterService.buildDeniedStagedPoliciesFilter(
         options.namespace,
@@ -100,8 +323,8 @@ program
       
       const filteredLogs = await logFilterService.filterLogs(logs, filter);
       
-      console.log(`Found ${filteredLogs.length} logs matching denied staged policies`);
-      console.log(JSON.stringify(filteredLogs, null, 2));
+      console.error(`Found ${filteredLogs.length} logs matching denied staged policies`);
+      printOutput({ data: filteredLogs, records: filteredLogs, columns: FLOW_LOG_COLUMNS });
     } catch (error) {
       console.error('❌ Error:', error instanceof Error ? error.message : String(error));
       process.exit(1);
@@ -115,10 +338,10 @@ program
   .option('-b, --min-bytes <number>', 'Minimum bytes', '100000')
   .action(async (options) => {
     try {
-      const calicoService = new CalicoWhiskerService();
+      const calicoService = createCalicoService();
       const logFilterService = new LogFilterService();
 
-      console.log('Fetching high traffic flow logs...');
+      console.error('Fetching high traffic flow logs...');
       const logs = await calicoService.getFlowLogs();
       
       const filter = logFilterService.buildHighTrafficFilter(
@@ -128,8 +351,8 @@ program
       
       const filteredLogs = await logFilterService.filterLogs(logs, filter);
       
-      console.log(`Found ${filteredLogs.length} high traffic flows`);
-      console.log(JSON.stringify(filteredLogs, null, 2));
+      console.error(`Found ${filteredLogs.length} high traffic flows`);
+      printOutput({ data: filteredLogs, records: filteredLogs, columns: FLOW_LOG_COLUMNS });
     } catch (error) {
       console.error('❌ Error:', error instanceof Error ? error.message : String(error));
       process.exit(1);
@@ -142,10 +365,9 @@ program
   .action(async () => {
     const logFilterService = new LogFilterService();
     
-    console.log('Checking dependencies...');
+    console.error('Checking dependencies...');
     
     const jqAvailable = await logFilterService.checkJqAvailable();
-    console.log(`jq: ${jqAvailable ? '✅ Available' : '❌ Not found'}`);
     
     // Check kubectl
     const { spawn } = await import('child_process');
@@ -156,17 +378,28 @@ program
     });
     
     const kubectlAvailable = await kubectlCheck;
-    console.log(`kubectl: ${kubectlAvailable ? '✅ Available' : '❌ Not found'}`);
+
+    const dependencies = [
+      { name: 'jq', available: jqAvailable, note: 'optional, only used for filters outside the built-in subset' },
+      { name: 'kubectl', available: kubectlAvailable, note: 'optional, the Kubernetes API service proxy is used instead' },
+    ];
+    const columns: Column<(typeof dependencies)[number]>[] = [
+      { header: 'dependency', value: dependency => dependency.name },
+      { header: 'available', value: dependency => String(dependency.available) },
+      { header: 'note', value: dependency => dependency.note },
+    ];
+    printOutput({ data: dependencies, records: dependencies, columns });
     
     if (!jqAvailable) {
-      console.log('\nTo install jq:');
-      console.log('  macOS: brew install jq');
-      console.log('  Ubuntu/Debian: sudo apt-get install jq');
-      console.log('  CentOS/RHEL: sudo yum install jq');
+      console.error('\nFilters are evaluated in-process; jq is only used for expressions outside the built-in subset.');
+      console.error('To install jq:');
+      console.error('  macOS: brew install jq');
+      console.error('  Ubuntu/Debian: sudo apt-get install jq');
+      console.error('  CentOS/RHEL: sudo yum install jq');
     }
     
     if (!kubectlAvailable) {
-      console.log('\nTo install kubectl, visit: https://kubernetes.io/docs/tasks/tools/');
+      console.error('\nkubectl is only needed for --transport port-forward. To install it, visit: https://kubernetes.io/docs/tasks/tools/');
     }
   });
 
@@ -181,17 +414,17 @@ program
         process.exit(1);
       }
 
-      const calicoService = new CalicoWhiskerService();
+      const calicoService = createCalicoService();
       const logFilterService = new LogFilterService();
 
-      console.log(`Fetching flow logs for namespace: ${options.namespace}...`);
-      const logs = await calicoService.getFlowLogs();
+      console.error(`Fetching flow logs for namespace: ${options.namespace}...`);
+      const logs = await calicoService.getFlowLogs({ namespace: options.namespace });
       
       const filter = logFilterService.buildNamespaceFilter(options.namespace);
       const filteredLogs = await logFilterService.filterLogs(logs, filter);
       
-      console.log(`Found ${filteredLogs.length} logs for namespace ${options.namespace}`);
-      console.log(JSON.stringify(filteredLogs, null, 2));
+      console.error(`Found ${filteredLogs.length} logs for namespace ${options.namespace}`);
+      printOutput({ data: filteredLogs, records: filteredLogs, columns: FLOW_LOG_COLUMNS });
     } catch (error) {
       console.error('❌ Error:', error instanceof Error ? error.message : String(error));
       process.exit(1);
@@ -200,11 +433,13 @@ program
 
 program
   .command('generate-policies')
-  .description('Analyze flow logs and provide aggregated data for network policy generation')
+  .description('Generate Calico network policies for a namespace from observed flow logs')
   .option('-n, --namespace <namespace>', 'Namespace to analyze flows for')
   .option('-k, --selector-key <key>', 'Label key to use for workload grouping (e.g., app, service)')
+  .option('-f, --format <format>', 'Output format (yaml|json, default: yaml; --output json selects json)')
   .action(async (options) => {
     try {
+      const format = policyOrGraphFormat('generate-policies', options.format, 'yaml');
       if (!options.namespace) {
         console.error('❌ Error: --namespace is required');
         process.exit(1);
@@ -217,27 +452,29 @@ program
         process.exit(1);
       }
 
-      const calicoService = new CalicoWhiskerService();
+      if (format !== 'yaml' && format !== 'json') {
+        console.error(`❌ Error: unsupported format "${format}" (use yaml or json)`);
+        process.exit(1);
+      }
+
+      const calicoService = createCalicoService();
       const logFilterService = new LogFilterService();
 
-      console.log(`Analyzing flow logs for namespace: ${options.namespace}...`);
-      console.log(`Using selector key: ${options.selectorKey}`);
+      console.error(`Analyzing flow logs for namespace: ${options.namespace}...`);
+      console.error(`Using selector key: ${options.selectorKey}`);
       
       const logs = await calicoService.getFlowLogs();
       const aggregatedLogs = logFilterService.aggregateLogsForPolicyGeneration(logs, options.namespace);
+      const { policies, warnings } = logFilterService.generateCalicoNetworkPolicies(aggregatedLogs, options.namespace, options.selectorKey);
       
-      const response = {
-        namespace: options.namespace,
-        selectorKey: options.selectorKey,
-        aggregatedFlows: aggregatedLogs,
-        summary: {
-          totalUniqueFlows: aggregatedLogs.length,
-          analysisNote: "Use this aggregated data to manually create network policies based on observed traffic patterns"
-        }
-      };
-      
-      console.log(`✅ Analyzed ${aggregatedLogs.length} unique flows for policy generation`);
-      console.log(JSON.stringify(response, null, 2));
+      warnings.forEach(warning => console.error(`⚠️ ${warning}`));
+      console.error(`✅ Generated ${policies.length} policies from ${aggregatedLogs.length} unique flows`);
+
+      if (format === 'json') {
+        console.log(JSON.stringify(policies, null, 2));
+      } else {
+        console.log(logFilterService.renderPoliciesAsYaml(policies));
+      }
     } catch (error) {
       console.error('❌ Error:', error instanceof Error ? error.message : String(error));
       process.exit(1);
@@ -252,20 +489,11 @@ program
     try {
       const k8sService = new KubernetesService();
       
-      console.log('Reading kubeconfig contexts...');
+      console.error('Reading kubeconfig contexts...');
       const contexts = await k8sService.getAvailableContexts(options.kubeconfig);
       
-      console.log(`\n📋 Found ${contexts.length} contexts:\n`);
-      contexts.forEach(ctx => {
-        const marker = ctx.isCurrent ? '✅ [CURRENT]' : '  ';
-        console.log(`${marker} ${ctx.name}`);
-        console.log(`    Cluster: ${ctx.cluster}`);
-        console.log(`    User: ${ctx.user}`);
-        if (ctx.namespace) {
-          console.log(`    Namespace: ${ctx.namespace}`);
-        }
-        console.log('');
-      });
+      console.error(`Found ${contexts.length} contexts`);
+      printOutput({ data: contexts, records: contexts, columns: CONTEXT_COLUMNS });
     } catch (error) {
       console.error('❌ Error:', error instanceof Error ? error.message : String(error));
       process.exit(1);
@@ -280,21 +508,15 @@ program
     try {
       const k8sService = new KubernetesService();
       
-      console.log('Getting current context information...');
+      console.error('Getting current context information...');
       const currentContext = await k8sService.getCurrentContextInfo(options.kubeconfig);
       
       if (!currentContext) {
-        console.log('❌ No current context is set in the kubeconfig file');
-        return;
+        console.error('❌ No current context is set in the kubeconfig file');
+        process.exit(1);
       }
       
-      console.log('\n✅ Current Context:');
-      console.log(`  Name: ${currentContext.name}`);
-      console.log(`  Cluster: ${currentContext.cluster}`);
-      console.log(`  User: ${currentContext.user}`);
-      if (currentContext.namespace) {
-        console.log(`  Namespace: ${currentContext.namespace}`);
-      }
+      printOutput({ data: currentContext, records: [currentContext], columns: CONTEXT_COLUMNS });
     } catch (error) {
       console.error('❌ Error:', error instanceof Error ? error.message : String(error));
       process.exit(1);
@@ -310,31 +532,44 @@ program
       const k8sService = new KubernetesService();
       const configPath = options.kubeconfig || k8sService.getDefaultKubeconfigPath();
       
-      console.log(`Checking kubeconfig: ${configPath}`);
+      console.error(`Checking kubeconfig: ${configPath}`);
       
-      const exists = k8sService.kubeconfigExists(options.kubeconfig);
-      
-      if (!exists) {
-        console.log('❌ Kubeconfig file not found');
-        console.log(`Expected location: ${configPath}`);
-        return;
-      }
+      const check = {
+        path: configPath,
+        exists: k8sService.kubeconfigExists(options.kubeconfig),
+        valid: false,
+        contexts: 0,
+        currentContext: null as string | null,
+        error: null as string | null,
+      };
       
-      console.log('✅ Kubeconfig file exists');
-      
-      try {
-        const contexts = await k8sService.getAvailableContexts(options.kubeconfig);
-        console.log(`✅ Kubeconfig is valid with ${contexts.length} contexts`);
-        
-        const current = contexts.find(ctx => ctx.isCurrent);
-        if (current) {
-          console.log(`✅ Current context: ${current.name}`);
-        } else {
-          console.log('⚠️  No current context set');
+      if (!check.exists) {
+        console.error('❌ Kubeconfig file not found');
+        console.error(`Expected location: ${configPath}`);
+      } else {
+        console.error('✅ Kubeconfig file exists');
+        try {
+          const contexts = await k8sService.getAvailableContexts(options.kubeconfig);
+          check.valid = true;
+          check.contexts = contexts.length;
+          check.currentContext = contexts.find(ctx => ctx.isCurrent)?.name ?? null;
+          console.error(`✅ Kubeconfig is valid with ${contexts.length} contexts`);
+          console.error(check.currentContext ? `✅ Current context: ${check.currentContext}` : '⚠️  No current context set');
+        } catch (error) {
+          check.error = error instanceof Error ? error.message : String(error);
+          console.error('❌ Kubeconfig file has errors:', check.error);
         }
-      } catch (error) {
-        console.log('❌ Kubeconfig file has errors:', error instanceof Error ? error.message : String(error));
       }
+
+      const columns: Column<typeof check>[] = [
+        { header: 'path', value: c => c.path },
+        { header: 'exists', value: c => String(c.exists) },
+        { header: 'valid', value: c => String(c.valid) },
+        { header: 'contexts', value: c => c.contexts },
+        { header: 'current_context', value: c => c.currentContext },
+        { header: 'error', value: c => c.error },
+      ];
+      printOutput({ data: check, records: [check], columns });
     } catch (error) {
       console.error('❌ Error:', error instanceof Error ? error.message : String(error));
       process.exit(1);
@@ -344,56 +579,73 @@ program
 program
   .command('test-connection')
   .description('Test full MCP server connection flow and staged deny log retrieval')
+  .option('-c, --context <context>', 'Kubernetes context name')
   .option('-k, --kubeconfig <path>', 'Path to kubeconfig file')
   .action(async (options) => {
     try {
+      const context = options.context || program.opts().kubeContext;
       const k8sService = new KubernetesService();
-      const calicoService = new CalicoWhiskerService();
+      const calicoService = createCalicoService(options.kubeconfig, context);
       const logFilterService = new LogFilterService();
       
-      console.log('🔍 Testing MCP Server Connection Flow...\n');
+      console.error('🔍 Testing MCP Server Connection Flow...\n');
       
       // Test current context
-      console.log('1. Checking current context...');
+      console.error('1. Checking current context...');
       const currentContext = await k8sService.getCurrentContextInfo(options.kubeconfig);
-      if (!currentContext) {
-        console.log('❌ No current context set');
-        return;
+      if (!context && !currentContext) {
+        console.error('❌ No current context set');
+        process.exit(1);
       }
-      console.log(`✅ Current context: ${currentContext.name}`);
+      console.error(`✅ ${context ? `Selected context: ${context}` : `Current context: ${currentContext!.name}`}`);
       
       // Test connectivity
-      console.log('\n2. Testing cluster connectivity...');
-      await k8sService.connect(undefined, options.kubeconfig);
-      console.log('✅ Cluster connection successful');
+      console.error('\n2. Testing cluster connectivity...');
+      await k8sService.connect(context, options.kubeconfig);
+      console.error('✅ Cluster connection successful');
       
       // Check Calico
-      console.log('\n3. Checking Calico installation...');
-      const whiskerInstalled = await k8sService.checkCalicoWhiskerInstalled();
-      console.log(`${whiskerInstalled ? '✅' : '⚠️'} Calico system: ${whiskerInstalled ? 'Found' : 'Not found'}`);
+      console.error('\n3. Checking Calico installation...');
+      const whiskerInstalled = await k8sService.checkCalicoWhiskerInstalled(calicoService.getConfig().namespace);
+      console.error(`${whiskerInstalled ? '✅' : '⚠️'} Calico system: ${whiskerInstalled ? 'Found' : 'Not found'}`);
       
       // Test port-forward
-      console.log('\n4. Setting up port-forward...');
-      await calicoService.setupPortForward(options.kubeconfig);
-      console.log('✅ Port-forward established');
+      console.error('\n4. Setting up port-forward...');
+      await calicoService.setupPortForward(options.kubeconfig, context);
+      console.error('✅ Port-forward established');
       
       // Test flow logs
-      console.log('\n5. Testing flow log retrieval...');
+      console.error('\n5. Testing flow log retrieval...');
       const logs = await calicoService.getFlowLogs();
-      console.log(`✅ Retrieved ${logs.length} flow logs`);
+      console.error(`✅ Retrieved ${logs.length} flow logs`);
       
       // Test staged deny filtering
-      console.log('\n6. Testing staged deny filtering...');
+      console.error('\n6. Testing staged deny filtering...');
       const filter = logFilterService.buildDeniedStagedPoliciesFilter();
       const deniedLogs = await logFilterService.filterLogs(logs, filter);
-      console.log(`✅ Found ${deniedLogs.length} flows with staged deny policies`);
-      
-      console.log('\n🎉 All tests passed! MCP server is fully functional.');
+      console.error(`✅ Found ${deniedLogs.length} flows with staged deny policies`);
+      
+      console.error('\n🎉 All tests passed! MCP server is fully functional.');
+      const result = {
+        context: context || currentContext!.name,
+        transport: calicoService.getTransport(),
+        whiskerInstalled,
+        flowLogs: logs.length,
+        stagedDeniedFlows: deniedLogs.length,
+      };
+      const columns: Column<typeof result>[] = [
+        { header: 'context', value: r => r.context },
+        { header: 'transport', value: r => r.transport },
+        { header: 'whisker_installed', value: r => String(r.whiskerInstalled) },
+        { header: 'flow_logs', value: r => r.flowLogs },
+        { header: 'staged_denied_flows', value: r => r.stagedDeniedFlows },
+      ];
+      printOutput({ data: result, records: [result], columns });
       
       // Cleanup
       setTimeout(async () => {
         await calicoService.stopPortForward();
-        console.log('\n🧹 Port-forward stopped');
+        console.error('\n🧹 Port-forward stopped');
         process.exit(0);
       }, 2000);
       
@@ -409,11 +661,15 @@ program
   .requiredOption('-n, --namespace <namespace>', 'Namespace to analyze')
   .action(async (options) => {
     try {
-      const calicoService = new CalicoWhiskerService();
+      const calicoService = createCalicoService();
       
-      console.log(`Generating flow summary for namespace: ${options.namespace}`);
-      const summary = await calicoService.getNamespaceFlowSummary(options.namespace);
-      console.log(summary);
+      console.error(`Generating flow summary for namespace: ${options.namespace}`);
+      const summary = JSON.parse(await calicoService.getNamespaceFlowSummary(options.namespace));
+      if (summary.statistics) {
+        const { flows, traffic } = summary.statistics;
+        console.error(`${flows.total} flows (${flows.allowed} allowed, ${flows.blocked} blocked), ${traffic.totalPackets} packets, ${traffic.totalBytes} bytes`);
+      }
+      printOutput({ data: summary, records: summary.flows, columns: NAMESPACE_SUMMARY_COLUMNS });
       
     } catch (error) {
       console.error('❌ Error:', error instanceof Error ? error.message : String(error));
@@ -427,11 +683,14 @@ program
   .option('-n, --namespace <namespace>', 'Filter by namespace (optional)')
   .action(async (options) => {
     try {
-      const calicoService = new CalicoWhiskerService();
+      const calicoService = createCalicoService();
       
-      console.log(`Analyzing blocked flows${options.namespace ? ` for namespace: ${options.namespace}` : ' (all namespaces)'}`);
-      const analysis = await calicoService.analyzeBlockedFlows(options.namespace);
-      console.log(analysis);
+      console.error(`Analyzing blocked flows${options.namespace ? ` for namespace: ${options.namespace}` : ' (all namespaces)'}`);
+      const analysis = JSON.parse(await calicoService.analyzeBlockedFlows(options.namespace));
+      if (analysis.analysis) {
+        console.error(`${analysis.analysis.totalBlockedFlows} blocked flows, ${analysis.analysis.uniqueBlockedConnections} unique connections`);
+      }
+      printOutput({ data: analysis, records: analysis.blockedFlows, columns: BLOCKED_FLOW_COLUMNS });
       
     } catch (error) {
       console.error('❌ Error:', error instanceof Error ? error.message : String(error));
@@ -439,4 +698,244 @@ program
     }
   });
 
+program
+  .command('trace')
+  .description('Check whether one workload can reach another and which policies decide it')
+  .option('-s, --source <name>', 'Source workload name or name prefix')
+  .option('--source-labels <selector>', 'Source workload labels, e.g. app=frontend,tier=web')
+  .option('--source-namespace <namespace>', 'Namespace of the source workload (default: --namespace)')
+  .option('-d, --destination <name>', 'Destination workload name or name prefix')
+  .option('--dest-labels <selector>', 'Destination workload labels, e.g. app=database')
+  .option('--dest-namespace <namespace>', 'Namespace of the destination workload (default: --namespace)')
+  .option('-n, --namespace <namespace>', 'Namespace of both workloads')
+  .option('-p, --port <port>', 'Destination port')
+  .option('--protocol <protocol>', 'Protocol, e.g. tcp or udp')
+  .option('--start-time <time>', 'Start time (ISO 8601 format)')
+  .option('--end-time <time>', 'End time (ISO 8601 format)')
+  .option('--json', 'Print the full trace, including the matching flows, as JSON (same as --output json)')
+  .action(async (options) => {
+    try {
+      const port = options.port !== undefined ? Number(options.port) : undefined;
+      if (port !== undefined && (!Number.isInteger(port) || port < 1 || port > 65535)) {
+        throw new Error(`Invalid port: ${options.port}`);
+      }
+
+      const calicoService = createCalicoService();
+      const trace = await calicoService.traceConnection({
+        startTime: options.startTime,
+        endTime: options.endTime,
+        source: { name: options.source, labels: options.sourceLabels, namespace: options.sourceNamespace || options.namespace },
+        destination: { name: options.destination, labels: options.destLabels, namespace: options.destNamespace || options.namespace },
+        port,
+        protocol: options.protocol,
+      });
+
+      // The report goes to stderr for reading; stdout gets the trace, whose tabular formats list the matching flows
+      const icon = trace.verdict === 'allowed' ? '✅' : trace.verdict === 'no-traffic' ? '❔' : '❌';
+      console.error(`${icon} Verdict: ${trace.verdict}${trace.pendingVerdict !== trace.verdict ? ` (with pending policies: ${trace.pendingVerdict})` : ''}`);
+      console.error(trace.explanation);
+      console.error(`\nFlows: ${trace.summary.totalFlows} (${trace.summary.allowed} allowed, ${trace.summary.denied} denied)`);
+      Object.entries(trace.summary.byReporter).forEach(([reporter, count]) => {
+        console.error(`  ${reporter}: ${count}`);
+      });
+      if (trace.policies.length > 0) {
+        console.error('\nPolicies in evaluation order:');
+        trace.policies.forEach((policy, index) => {
+          const name = policy.namespace ? `${policy.namespace}/${policy.name}` : policy.name;
+          console.error(`  ${index + 1}. [${policy.reporter}, ${policy.stage}] ${policy.kind} ${name} tier=${policy.tier} policy=${policy.policyIndex} rule=${policy.ruleIndex} → ${policy.action} (${policy.flows} flow${policy.flows === 1 ? '' : 's'})`);
+        });
+      }
+      printOutput({ data: trace, records: trace.flows, columns: FLOW_LOG_COLUMNS }, options.json ? 'json' : outputFormat());
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('staged-impact')
+  .description('Report what promoting staged policies would change, with a go/no-go recommendation')
+  .option('-n, --namespace <namespace>', 'Only consider flows and staged policies of this namespace')
+  .option('-P, --policy <name>', 'Only report this staged policy')
+  .option('--start-time <time>', 'Start time (ISO 8601 format)')
+  .option('--end-time <time>', 'End time (ISO 8601 format)')
+  .option('--json', 'Print the full report as JSON (same as --output json)')
+  .action(async (options) => {
+    try {
+      const calicoService = createCalicoService();
+      const report = await calicoService.getStagedPolicyImpact(options.namespace, { startTime: options.startTime, endTime: options.endTime }, options.policy);
+
+      // The report goes to stderr for reading; stdout gets the full report, whose tabular formats list the affected connections
+      const icons = { 'go': '✅', 'no-go': '❌', 'insufficient-data': '❔' };
+      console.error(`${icons[report.recommendation]} ${report.recommendation.toUpperCase()}: ${report.summary}`);
+      report.policies.forEach(policy => {
+        const name = policy.namespace ? `${policy.namespace}/${policy.name}` : policy.name;
+        console.error(`\n${icons[policy.recommendation]} ${policy.kind} ${name} (${policy.flowsMatched} flows matched): ${policy.reason}`);
+        policy.newlyDenied.forEach(connection => {
+          console.error(`  - would deny  ${connection.source} → ${connection.destination}:${connection.port}/${connection.protocol} (${connection.flows} flows, ${connection.bytes} bytes)`);
+        });
+        policy.newlyAllowed.forEach(connection => {
+          console.error(`  + would allow ${connection.source} → ${connection.destination}:${connection.port}/${connection.protocol} (${connection.flows} flows, ${connection.bytes} bytes)`);
+        });
+      });
+      report.warnings.forEach(warning => console.error(`⚠️  ${warning}`));
+
+      const records = report.policies.flatMap(policy => {
+        const { kind, recommendation } = policy;
+        const name = policy.namespace ? `${policy.namespace}/${policy.name}` : policy.name;
+        return [
+          ...policy.newlyDenied.map(connection => ({ policy: name, kind, recommendation, change: 'deny', ...connection })),
+          ...policy.newlyAllowed.map(connection => ({ policy: name, kind, recommendation, change: 'allow', ...connection })),
+        ];
+      });
+      const columns: Column<(typeof records)[number]>[] = [
+        { header: 'policy', value: row => row.policy },
+        { header: 'kind', value: row => row.kind },
+        { header: 'recommendation', value: row => row.recommendation },
+        { header: 'would', value: row => row.change },
+        { header: 'source', value: row => row.source },
+        { header: 'destination', value: row => row.destination },
+        { header: 'protocol', value: row => row.protocol },
+        { header: 'port', value: row => row.port },
+        { header: 'flows', value: row => row.flows },
+        { header: 'bytes', value: row => row.bytes },
+      ];
+      printOutput({ data: report, records, columns }, options.json ? 'json' : outputFormat());
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('graph')
+  .description('Render a service dependency graph from flows as Graphviz DOT, Mermaid or JSON')
+  .option('-f, --format <format>', 'Output format (dot|mermaid|json, default: dot; --output json selects json)')
+  .option('-n, --namespace <namespace>', 'Only include flows with this namespace as source or destination')
+  .option('-l, --level <level>', 'Graph nodes: workload or namespace', 'workload')
+  .option('--hide-allowed', 'Only show edges of denied traffic')
+  .option('--start-time <time>', 'Start time (ISO 8601 format)')
+  .option('--end-time <time>', 'End time (ISO 8601 format)')
+  .action(async (options) => {
+    try {
+      const format = policyOrGraphFormat('graph', options.format, 'dot');
+      if (!GRAPH_FORMATS.includes(format as GraphFormat)) {
+        throw new Error(`Invalid format "${format}" (expected one of ${GRAPH_FORMATS.join(', ')})`);
+      }
+      if (options.level !== 'workload' && options.level !== 'namespace') {
+        throw new Error(`Invalid level "${options.level}" (expected workload or namespace)`);
+      }
+
+      const calicoService = createCalicoService();
+      const logs = await calicoService.getFlowLogs({ startTime: options.startTime, endTime: options.endTime, namespace: options.namespace });
+      const graph = buildServiceGraph(logs, { level: options.level, hideAllowed: options.hideAllowed });
+      // Only the graph goes to stdout, so it can be piped into dot or saved as a file
+      console.error(`Graph of ${graph.nodes.length} nodes and ${graph.edges.length} edges from ${logs.length} flows`);
+      console.log(renderServiceGraph(graph, format as GraphFormat));
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+const SNAPSHOT_SUMMARY_COLUMNS: Column<FlowSnapshotSummary>[] = [
+  { header: 'path', value: summary => summary.path },
+  { header: 'created_at', value: summary => summary.createdAt },
+  { header: 'context', value: summary => summary.context },
+  { header: 'flows', value: summary => summary.flows },
+  { header: 'first_flow_at', value: summary => summary.firstFlowAt },
+  { header: 'last_flow_at', value: summary => summary.lastFlowAt },
+];
+
+const snapshot = program
+  .command('snapshot')
+  .description('Save flows to a file, or inspect a saved snapshot for use with --snapshot');
+
+snapshot
+  .command('save <file>')
+  .description('Save the current flows and the cluster they came from to a JSON file')
+  .option('-n, --namespace <namespace>', 'Only save flows with this namespace as source or destination')
+  .option('--start-time <time>', 'Start time (ISO 8601 format)')
+  .option('--end-time <time>', 'End time (ISO 8601 format)')
+  .option('--overwrite', 'Replace the file if it already exists')
+  .action(async (file, options) => {
+    try {
+      const calicoService = createCalicoService();
+      const path = resolve(file);
+      const saved = await calicoService.createSnapshot(validateFlowQuery({
+        startTime: options.startTime,
+        endTime: options.endTime,
+        namespace: options.namespace,
+      }));
+      writeFlowSnapshot(path, saved, options.overwrite);
+
+      const summary = summarizeSnapshot(path, saved);
+      console.error(`✅ Saved ${summary.flows} flows to ${path}`);
+      if (summary.firstFlowAt) {
+        console.error(`Flows from ${summary.firstFlowAt} to ${summary.lastFlowAt}`);
+      }
+      printOutput({ data: summary, records: [summary], columns: SNAPSHOT_SUMMARY_COLUMNS });
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+snapshot
+  .command('load <file>')
+  .description('Check a saved snapshot and show what it contains')
+  .option('--json', 'Print the summary as JSON (same as --output json)')
+  .action(async (file, options) => {
+    try {
+      const path = resolve(file);
+      const loaded = readFlowSnapshot(path);
+      const summary = summarizeSnapshot(path, loaded);
+
+      console.error(`Snapshot: ${path}`);
+      console.error(`Saved: ${summary.createdAt || 'unknown (bare Whisker response)'}`);
+      if (loaded.source) {
+        console.error(`Cluster: ${loaded.source.context || 'unknown context'} (Whisker ${loaded.source.whisker.serviceName}.${loaded.source.whisker.namespace})`);
+      }
+      if (loaded.importedFrom) {
+        console.error(`Imported from ${loaded.importedFrom.format} flow logs: ${loaded.importedFrom.files.join(', ')}`);
+      }
+      console.error(`Flows: ${summary.flows}${summary.firstFlowAt ? ` from ${summary.firstFlowAt} to ${summary.lastFlowAt}` : ''}`);
+      console.error(`\nPass --snapshot ${file} to other commands to analyse these flows offline, e.g.:`);
+      console.error(`  npm run cli -- --snapshot ${file} analyze-blocked`);
+      printOutput(
+        { data: { ...summary, source: loaded.source, query: loaded.query }, records: [summary], columns: SNAPSHOT_SUMMARY_COLUMNS },
+        options.json ? 'json' : outputFormat()
+      );
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('import <path>')
+  .description('Convert Calico flow logs written by Felix (a flows.log file or a directory of them) to a snapshot for --snapshot')
+  .requiredOption('--save <file>', 'Snapshot file to write')
+  .option('--overwrite', 'Replace the snapshot file if it already exists')
+  .action(async (path, options) => {
+    try {
+      const imported = importFelixFlowLogs(resolve(path));
+      const target = resolve(options.save);
+      const saved = felixSnapshot(imported);
+      writeFlowSnapshot(target, saved, options.overwrite);
+
+      console.error(`✅ Imported ${imported.logs.length} flows from ${imported.files.length} file(s) to ${target}`);
+      if (imported.skipped > 0) {
+        console.error(`⚠️  Skipped ${imported.skipped} record(s) that could not be converted:`);
+        imported.warnings.forEach(warning => console.error(`  ${warning}`));
+      }
+      console.error(`\nAnalyse them with: npm run cli -- --snapshot ${options.save} <command>`);
+      const summary = { ...summarizeSnapshot(target, saved), files: imported.files, skipped: imported.skipped, warnings: imported.warnings };
+      printOutput({ data: summary, records: [summary], columns: SNAPSHOT_SUMMARY_COLUMNS });
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
 program.parse();
\ No newline at end of file
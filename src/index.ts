@@ -4,485 +4,726 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
-  Tool,
+  LoggingLevel,
+  ReadResourceRequestSchema,
+  SetLevelRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
-import { CalicoWhiskerService } from './services/calico-whisker.js';
+import { FlowLog } from './services/calico-whisker.js';
+import { ClusterSession, ClusterSessionManager } from './services/cluster-sessions.js';
+import { felixSnapshot, importFelixFlowLogs, resolveImportPath } from './services/felix-flow-log.js';
+import { diffFlows } from './services/flow-diff.js';
+import { FlowPageOptions, paginateFlows } from './services/flow-pagination.js';
+import { readFlowSnapshot, resolveSnapshotPath, snapshotFlowLogs, summarizeSnapshot, writeFlowSnapshot } from './services/flow-snapshot.js';
+import { FlowTimeRange } from './services/flow-store.js';
+import { FlowWatcher } from './services/flow-watcher.js';
+import { INVESTIGATION_PROMPTS, buildPromptMessages } from './services/investigation-prompts.js';
+import { FlowQuery } from './services/whisker-query.js';
+import { ResourceSubscriptions, WHISKER_RESOURCE_TEMPLATES, WhiskerResourceProvider } from './services/whisker-resources.js';
 import { KubernetesService } from './services/kubernetes.js';
 import { LogFilterService } from './services/log-filter.js';
+import { validateSchema } from './services/schema-validator.js';
+import { buildServiceGraph, renderServiceGraph } from './services/service-graph.js';
+import { TOOL_DEFINITIONS, ToolArgs, findToolDefinition } from './services/tool-definitions.js';
+
+// Severity order used to honour the client's logging/setLevel
+const LOGGING_LEVELS: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+/**
+ * A tool result the client should treat as a failure.
+ */
+function toolError(text: string) {
+  return {
+    content: [{ type: 'text', text }],
+    isError: true,
+  };
+}
+
+/**
+ * One page of a flow list, with the total and the cursor for the next page.
+ */
+function flowPageResult(logs: FlowLog[], options: FlowPageOptions) {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(paginateFlows(logs, options), null, 2),
+      },
+    ],
+  };
+}
+
+interface FlowWatch {
+  watcher: FlowWatcher;
+  cluster: string;
+  startedAt: string;
+}
 
 export class CalicoWhiskerMCPServer {
   private server: Server;
-  private calicoService: CalicoWhiskerService;
+  private sessions: ClusterSessionManager;
   private k8sService: KubernetesService;
   private logFilterService: LogFilterService;
+  private watches = new Map<string, FlowWatch>();
+  private nextWatchId = 1;
+  private logLevel: LoggingLevel = 'info';
+  private resources: WhiskerResourceProvider;
+  private subscriptions: ResourceSubscriptions;
 
   constructor() {
     this.server = new Server({
       name: 'calico-whisker-mcp-server',
       version: '1.0.0',
+    }, {
+      // Declared explicitly: the SDK only accepts handlers for advertised capabilities, and
+      // resources/subscribe is served by the ResourceSubscriptions below
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true },
+        prompts: {},
+        // watch_flows delivers flows as notifications/message log notifications
+        logging: {},
+      },
     });
 
-    this.calicoService = new CalicoWhiskerService();
+    this.sessions = new ClusterSessionManager();
     this.k8sService = new KubernetesService();
     this.logFilterService = new LogFilterService();
+    this.resources = new WhiskerResourceProvider(this.sessions);
+    this.subscriptions = new ResourceSubscriptions(
+      async (uri) => (await this.resources.read(uri)).text,
+      (uri) => this.server.sendResourceUpdated({ uri })
+    );
 
     this.setupToolHandlers();
+    this.setupResourceHandlers();
+    this.setupPromptHandlers();
+    this.setupLoggingHandlers();
+  }
+
+  private setupPromptHandlers() {
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return { prompts: INVESTIGATION_PROMPTS };
+    });
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      return buildPromptMessages(request.params.name, request.params.arguments);
+    });
+  }
+
+  private setupResourceHandlers() {
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      return { resources: await this.resources.list() };
+    });
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return { resourceTemplates: WHISKER_RESOURCE_TEMPLATES };
+    });
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      return { contents: [await this.resources.read(request.params.uri)] };
+    });
+
+    // Subscribed resources are re-read periodically and notifications/resources/updated is sent on change
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      await this.subscriptions.subscribe(request.params.uri);
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.unsubscribe(request.params.uri);
+      return {};
+    });
+  }
+
+  private setupLoggingHandlers() {
+    this.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      this.logLevel = request.params.level;
+      return {};
+    });
   }
 
   private setupToolHandlers() {
     this.server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
-        tools: [
-          {
-            name: 'connect_to_cluster',
-            description: 'Connect to a Kubernetes cluster and set up port-forwarding to Calico Whisker',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                context: {
-                  type: 'string',
-                  description: 'Kubernetes context name (optional if kubeconfig is provided)',
-                },
-                kubeconfig: {
-                  type: 'string',
-                  description: 'Path to kubeconfig file (optional if context is provided)',
-                },
-              },
-            },
-          },
-          {
-            name: 'get_flow_logs',
-            description: 'Retrieve flow logs from Calico Whisker with optional filtering',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                filter: {
-                  type: 'string',
-                  description: 'JQ filter expression to apply to the logs',
-                },
-                startTime: {
-                  type: 'string',
-                  description: 'Start time for log filtering (ISO 8601 format)',
-                },
-                endTime: {
-                  type: 'string',
-                  description: 'End time for log filtering (ISO 8601 format)',
-                },
-              },
-            },
-          },
-          {
-            name: 'analyze_blocked_flows',
-            description: 'PREFERRED TOOL: Analyze denied/blocked/rejected flows and identify root cause policies. Use this tool when users ask to "analyze deny flows", "analyze blocked flows", "investigate denied traffic", "find blocking policies", or similar requests. Provides detailed policy YAML, root cause analysis, and actionable recommendations.',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                namespace: {
-                  type: 'string',
-                  description: 'Filter blocked flows by namespace (optional)',
-                },
-              },
-              'x-mcp-priority': 'high',
-              'x-mcp-keywords': ['analyze', 'blocked', 'denied', 'investigate', 'troubleshoot', 'root cause'],
-              'x-mcp-use-case': 'blocked-flow-analysis'
-            },
-          },
-          {
-            name: 'get_denied_staged_policies',
-            description: 'Get flow logs matching staged network policies that would be denied if enforced',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                namespace: {
-                  type: 'string',
-                  description: 'Filter by namespace (optional)',
-                },
-                sourceName: {
-                  type: 'string',
-                  description: 'Filter by source name (optional)',
-                },
-                destName: {
-                  type: 'string',
-                  description: 'Filter by destination name (optional)',
-                },
-              },
-            },
-          },
-          // {
-          //   name: 'get_policy_violations',
-          //   description: 'Get raw flow log data that violate network policies. For detailed analysis of blocked flows, use analyze_blocked_flows instead.',
-          //   inputSchema: {
-          //     type: 'object',
-          //     properties: {
-          //       action: {
-          //         type: 'string',
-          //         description: 'Filter by action (Allow/Deny)',
-          //         enum: ['Allow', 'Deny'],
-          //       },
-          //       namespace: {
-          //         type: 'string',
-          //         description: 'Filter by namespace',
-          //       },
-          //       protocol: {
-          //         type: 'string',
-          //         description: 'Filter by protocol (tcp/udp)',
-          //       },
-          //     },
-          //   },
-          // },
-          {
-            name: 'get_high_traffic_flows',
-            description: 'Get flow logs with high traffic volume',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                minPackets: {
-                  type: 'number',
-                  description: 'Minimum number of packets to filter by',
-                  default: 1000,
-                },
-                minBytes: {
-                  type: 'number',
-                  description: 'Minimum number of bytes to filter by',
-                  default: 100000,
-                },
-              },
-            },
-          },
-          {
-            name: 'get_namespace_flows',
-            description: 'Get flow logs for a specific namespace (includes flows where namespace is either source or destination)',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                namespace: {
-                  type: 'string',
-                  description: 'The namespace to filter by',
-                },
-              },
-              required: ['namespace'],
-            },
-          },
-          {
-            name: 'generate_network_policies',
-            description: 'Analyze flow logs and provide aggregated data for network policy generation in a namespace',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                namespace: {
-                  type: 'string',
-                  description: 'The namespace to analyze flows for',
-                },
-                selectorKey: {
-                  type: 'string',
-                  description: 'The label key to use for workload grouping (e.g., "app", "service", "component")',
-                },
-              },
-              required: ['namespace', 'selectorKey'],
-            },
-          },
-          {
-            name: 'get_kubeconfig_contexts',
-            description: 'Get all available contexts from kubeconfig file',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                kubeconfigPath: {
-                  type: 'string',
-                  description: 'Path to kubeconfig file (optional, defaults to ~/.kube/config)',
-                },
-              },
-              required: [],
-            },
-          },
-          {
-            name: 'get_current_context',
-            description: 'Get information about the current Kubernetes context',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                kubeconfigPath: {
-                  type: 'string',
-                  description: 'Path to kubeconfig file (optional, defaults to ~/.kube/config)',
-                },
-              },
-              required: [],
-            },
-          },
-          {
-            name: 'check_kubeconfig',
-            description: 'Check if kubeconfig file exists and is accessible',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                kubeconfigPath: {
-                  type: 'string',
-                  description: 'Path to kubeconfig file (optional, defaults to ~/.kube/config)',
-                },
-              },
-              required: [],
-            },
-          },
-          {
-            name: 'diagnose_connection',
-            description: 'Diagnose Kubernetes and Calico Whisker connectivity issues',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                kubeconfigPath: {
-                  type: 'string',
-                  description: 'Path to kubeconfig file (optional)',
-                },
-              },
-              required: [],
-            },
-          },
-          {
-            name: 'get_namespace_flow_summary',
-            description: 'Get an aggregated CSV summary of flow logs for a specific namespace',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                namespace: {
-                  type: 'string',
-                  description: 'The namespace to get flow summary for',
-                },
-              },
-              required: ['namespace'],
-            },
-          },
-        ] as Tool[],
+        tools: [...TOOL_DEFINITIONS],
       };
     });
 
     this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
+      const { name, arguments: rawArgs } = request.params;
+
+      const definition = findToolDefinition(name);
+      if (!definition) {
+        return toolError(`Unknown tool: ${name}. Available tools: ${TOOL_DEFINITIONS.map(tool => tool.name).join(', ')}`);
+      }
+
+      // Arguments are checked against the tool's inputSchema (with defaults applied) before the handler runs
+      let args: Record<string, unknown>;
+      try {
+        args = validateSchema(definition.inputSchema, rawArgs ?? {});
+      } catch (error) {
+        return toolError(`Invalid arguments for ${name}:\n${error instanceof Error ? error.message : String(error)}`);
+      }
 
       try {
         switch (name) {
           case 'connect_to_cluster':
-            return await this.handleConnectToCluster(args);
+            return await this.handleConnectToCluster(args as ToolArgs<'connect_to_cluster'>);
+
+          case 'list_sessions':
+            return await this.handleListSessions();
+
+          case 'get_connection_status':
+            return await this.handleGetConnectionStatus(args as ToolArgs<'get_connection_status'>);
 
           case 'get_flow_logs':
-            return await this.handleGetFlowLogs(args);
+            return await this.handleGetFlowLogs(args as ToolArgs<'get_flow_logs'>);
+
+          case 'watch_flows':
+            return await this.handleWatchFlows(args as ToolArgs<'watch_flows'>);
+
+          case 'stop_watch_flows':
+            return await this.handleStopWatchFlows(args as ToolArgs<'stop_watch_flows'>);
 
           case 'get_denied_staged_policies':
-            return await this.handleGetDeniedStagedPolicies(args);
+            return await this.handleGetDeniedStagedPolicies(args as ToolArgs<'get_denied_staged_policies'>);
 
           // case 'get_policy_violations':
           //   return await this.handleGetPolicyViolations(args);
 
           case 'get_high_traffic_flows':
-            return await this.handleGetHighTrafficFlows(args);
+            return await this.handleGetHighTrafficFlows(args as ToolArgs<'get_high_traffic_flows'>);
 
           case 'get_namespace_flows':
-            return await this.handleGetNamespaceFlows(args);
+            return await this.handleGetNamespaceFlows(args as ToolArgs<'get_namespace_flows'>);
+
+          case 'trace_connection':
+            return await this.handleTraceConnection(args as ToolArgs<'trace_connection'>);
+
+          case 'policy_usage_report':
+            return await this.handlePolicyUsageReport(args as ToolArgs<'policy_usage_report'>);
+
+          case 'staged_policy_impact':
+            return await this.handleStagedPolicyImpact(args as ToolArgs<'staged_policy_impact'>);
+
+          case 'get_service_graph':
+            return await this.handleGetServiceGraph(args as ToolArgs<'get_service_graph'>);
+
+          case 'diff_flows':
+            return await this.handleDiffFlows(args as ToolArgs<'diff_flows'>);
+
+          case 'save_snapshot':
+            return await this.handleSaveSnapshot(args as ToolArgs<'save_snapshot'>);
+
+          case 'load_snapshot':
+            return await this.handleLoadSnapshot(args as ToolArgs<'load_snapshot'>);
+
+          case 'import_flow_logs':
+            return await this.handleImportFlowLogs(args as ToolArgs<'import_flow_logs'>);
 
           case 'generate_network_policies':
-            return await this.handleGenerateNetworkPolicies(args);
+            return await this.handleGenerateNetworkPolicies(args as ToolArgs<'generate_network_policies'>);
 
           case 'get_kubeconfig_contexts':
-            return await this.handleGetKubeconfigContexts(args);
+            return await this.handleGetKubeconfigContexts(args as ToolArgs<'get_kubeconfig_contexts'>);
 
           case 'get_current_context':
-            return await this.handleGetCurrentContext(args);
+            return await this.handleGetCurrentContext(args as ToolArgs<'get_current_context'>);
 
           case 'check_kubeconfig':
-            return await this.handleCheckKubeconfig(args);
+            return await this.handleCheckKubeconfig(args as ToolArgs<'check_kubeconfig'>);
 
           case 'diagnose_connection':
-            return await this.handleDiagnoseConnection(args);
+            return await this.handleDiagnoseConnection(args as ToolArgs<'diagnose_connection'>);
 
           case 'get_namespace_flow_summary':
-            return await this.handleGetNamespaceFlowSummary(args);
+            return await this.handleGetNamespaceFlowSummary(args as ToolArgs<'get_namespace_flow_summary'>);
 
           case 'analyze_blocked_flows':
-            return await this.handleAnalyzeBlockedFlows(args);
+            return await this.handleAnalyzeBlockedFlows(args as ToolArgs<'analyze_blocked_flows'>);
 
           default:
-            throw new Error(`Unknown tool: ${name}`);
+            throw new Error(`Tool ${name} has no handler`);
         }
       } catch (error) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error executing tool ${name}: ${error instanceof Error ? error.message : String(error)}`,
-            },
-          ],
-        };
+        return toolError(`Error executing tool ${name}: ${error instanceof Error ? error.message : String(error)}`);
       }
     });
   }
 
-  private async handleConnectToCluster(args: any) {
-    const { context, kubeconfig } = args;
+  private async handleConnectToCluster(args: ToolArgs<'connect_to_cluster'>) {
+    const { context, kubeconfig, whiskerNamespace, whiskerService, whiskerServicePort, localPort, transport } = args;
+    let session: ClusterSession | null = null;
     
     try {
-      // Step 1: Connect to Kubernetes
+      // Step 1: Connect to Kubernetes (reusing the session for this context if there is one)
       console.error('Connecting to Kubernetes cluster...');
-      await this.k8sService.connect(context, kubeconfig);
-      console.error('✅ Kubernetes connection successful');
+      session = await this.sessions.connect({
+        context,
+        kubeconfig,
+        whisker: {
+          namespace: whiskerNamespace,
+          serviceName: whiskerService,
+          servicePort: whiskerServicePort,
+          localPort,
+          transport,
+        },
+      });
+      const { calicoService } = session;
+      const { namespace, serviceName } = calicoService.getConfig();
+      console.error(`✅ Kubernetes connection successful (session: ${session.name})`);
       
       // Step 2: Check if Whisker service is available
       console.error('Checking Whisker service availability...');
-      const serviceStatus = await this.calicoService.checkWhiskerServiceStatus();
+      const serviceStatus = await calicoService.checkWhiskerServiceStatus();
       if (!serviceStatus.available) {
         throw new Error(`Whisker service not available: ${serviceStatus.details}`);
       }
       console.error(`✅ Whisker service status: ${serviceStatus.details}`);
       
-      // Step 3: Setup port-forward
-      console.error('Setting up port-forward to Whisker service...');
-      await this.calicoService.setupPortForward(kubeconfig);
-      console.error('✅ Port-forward established successfully');
+      // Step 3: Setup port-forward (or the API service proxy)
+      console.error('Setting up connection to Whisker service...');
+      await calicoService.setupPortForward(session.kubeconfigPath, session.context || undefined);
+      this.sessions.markConnected(session);
+      console.error('✅ Whisker connection established successfully');
+
+      const endpoint = calicoService.getTransport() === 'api-proxy'
+        ? `through the Kubernetes API service proxy (${calicoService.getWhiskerUrl()})`
+        : `on localhost:${calicoService.getLocalPort()}`;
       
       return {
         content: [
           {
             type: 'text',
-            text: `✅ Successfully connected to Kubernetes cluster and set up port-forwarding to Calico Whisker on localhost:8081\n\nService Status: ${serviceStatus.details}\n\nYou can now use other tools to retrieve flow logs.`,
+            text: `✅ Successfully connected session "${session.name}" to Kubernetes cluster and Calico Whisker (${serviceName}.${namespace}) ${endpoint}\n\nService Status: ${serviceStatus.details}\n\nYou can now use other tools to retrieve flow logs. Pass cluster: "${session.name}" to target this cluster when several are connected.`,
           },
         ],
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
+      const { namespace, serviceName } = session
+        ? session.calicoService.getConfig()
+        : { namespace: whiskerNamespace || 'calico-system', serviceName: whiskerService || 'whisker' };
       console.error('❌ Connection failed:', errorMessage);
       
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ Failed to connect to cluster or set up port-forwarding.\n\nError: ${errorMessage}\n\nTroubleshooting steps:\n1. Verify kubectl is configured correctly\n2. Check if the current context is valid\n3. Ensure Calico Whisker is installed and running\n4. Verify you have permissions to access calico-system namespace\n\nYou can check service status with: kubectl get service whisker -n calico-system`,
-          },
-        ],
-      };
+      return toolError(`❌ Failed to connect to cluster or set up port-forwarding.\n\nError: ${errorMessage}\n\nTroubleshooting steps:\n1. Verify your kubeconfig credentials are valid\n2. Check if the current context is valid\n3. Ensure Calico Whisker is installed and running\n4. Verify you have permissions to access ${namespace} namespace\n\nYou can check service status with: kubectl get service ${serviceName} -n ${namespace}`);
     }
   }
 
-  private async handleGetFlowLogs(args: any) {
-    const { filter, startTime, endTime } = args;
-    
-    const logs = await this.calicoService.getFlowLogs();
-    const filteredLogs = await this.logFilterService.filterLogs(logs, filter, startTime, endTime);
+  private async handleListSessions() {
+    const defaultSession = this.sessions.getDefaultSessionName();
+    const sessions = await Promise.all(this.sessions.list().map(async (session) => {
+      const status = await session.calicoService.getConnectionStatus(false);
+      return {
+        name: session.name,
+        context: session.context,
+        kubeconfigPath: session.kubeconfigPath,
+        connectedAt: session.connectedAt,
+        isDefault: session.name === defaultSession,
+        whisker: {
+          state: status.state,
+          transport: status.transport,
+          localPort: status.localPort,
+          namespace: status.namespace,
+          serviceName: status.serviceName,
+        },
+        offlineSnapshot: status.offlineSnapshot?.path ?? null,
+      };
+    }));
     
     return {
       content: [
         {
           type: 'text',
-          text: JSON.stringify(filteredLogs, null, 2),
+          text: JSON.stringify({
+            defaultSession,
+            totalSessions: sessions.length,
+            sessions,
+          }, null, 2),
         },
       ],
     };
   }
 
-  private async handleGetDeniedStagedPolicies(args: any) {
-    const { namespace, sourceName, destName } = args;
+  private async handleGetConnectionStatus(args: ToolArgs<'get_connection_status'>) {
+    const session = this.sessions.get(args.cluster);
+    const status = await session.calicoService.getConnectionStatus();
     
-    const logs = await this.calicoService.getFlowLogs();
-    const filter = this.logFilterService.buildDeniedStagedPoliciesFilter(namespace, sourceName, destName);
-    const filteredLogs = await this.logFilterService.filterLogs(logs, filter);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ cluster: session.name, ...status, history: session.collector.getStatus() }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleGetFlowLogs(args: ToolArgs<'get_flow_logs'>) {
+    const { filter, where, startTime, endTime, namespace, action, sortBy, sortOrder, pageSize } = args;
+
+    let combinedFilter: string | undefined = filter;
+    if (where !== undefined) {
+      try {
+        const structuredFilter = this.logFilterService.buildStructuredFilter(where);
+        combinedFilter = filter ? `${structuredFilter} | ${filter}` : structuredFilter;
+      } catch (error) {
+        return toolError(`Error: invalid where filter: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
     
+    // Time bounds are already applied by getFlowLogs
+    const query: FlowQuery = { startTime, endTime, namespace, action, sortBy, sortOrder, pageSize };
+    const logs = await this.sessions.get(args.cluster).calicoService.getFlowLogs(query);
+    const filteredLogs = await this.logFilterService.filterLogs(logs, combinedFilter);
+
+    return flowPageResult(filteredLogs, args);
+  }
+
+  private async handleWatchFlows(args: ToolArgs<'watch_flows'>) {
+    const { filter, where, intervalSeconds } = args;
+
+    let combinedFilter: string | undefined = filter;
+    if (where !== undefined) {
+      try {
+        const structuredFilter = this.logFilterService.buildStructuredFilter(where);
+        combinedFilter = filter ? `${structuredFilter} | ${filter}` : structuredFilter;
+      } catch (error) {
+        return toolError(`Error: invalid where filter: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    const session = this.sessions.get(args.cluster);
+    const watchId = `watch-${this.nextWatchId++}`;
+    const watcher = new FlowWatcher(
+      session.calicoService,
+      this.logFilterService,
+      { filter: combinedFilter, intervalSeconds },
+      (flows) => this.notifyWatchedFlows(watchId, session.name, flows)
+    );
+    await watcher.start();
+    this.watches.set(watchId, { watcher, cluster: session.name, startedAt: new Date().toISOString() });
+
     return {
       content: [
         {
           type: 'text',
-          text: JSON.stringify(filteredLogs, null, 2),
+          text: JSON.stringify({
+            watchId,
+            cluster: session.name,
+            ...watcher.getStatus(),
+            delivery: 'New matching flows are sent as notifications/message with logger "watch_flows" and data { watchId, cluster, flows }',
+          }, null, 2),
         },
       ],
     };
   }
 
+  private async handleStopWatchFlows(args: ToolArgs<'stop_watch_flows'>) {
+    const { watchId } = args;
+
+    if (watchId && !this.watches.has(watchId)) {
+      const active = Array.from(this.watches.keys());
+      return toolError(`Error: unknown watch "${watchId}". ${active.length > 0 ? `Active watches: ${active.join(', ')}` : 'No watches are active.'}`);
+    }
+
+    const ids = watchId ? [watchId] : Array.from(this.watches.keys());
+    const stopped = ids.map(id => {
+      const watch = this.watches.get(id)!;
+      watch.watcher.stop();
+      this.watches.delete(id);
+      return { watchId: id, cluster: watch.cluster, startedAt: watch.startedAt, ...watch.watcher.getStatus() };
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ stopped }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async notifyWatchedFlows(watchId: string, cluster: string, flows: FlowLog[]) {
+    if (LOGGING_LEVELS.indexOf('info') < LOGGING_LEVELS.indexOf(this.logLevel)) {
+      return;
+    }
+    try {
+      await this.server.sendLoggingMessage({
+        level: 'info',
+        logger: 'watch_flows',
+        data: { watchId, cluster, flows },
+      });
+    } catch (error) {
+      console.error(`Failed to deliver flows for ${watchId}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private async handleGetDeniedStagedPolicies(args: ToolArgs<'get_denied_staged_policies'>) {
+    const { namespace, sourceName, destName } = args;
+    
+    const logs = await this.sessions.get(args.cluster).calicoService.getFlowLogs({ startTime: args.startTime, endTime: args.endTime, namespace });
+    const filter = this.logFilterService.buildDeniedStagedPoliciesFilter(namespace, sourceName, destName);
+    const filteredLogs = await this.logFilterService.filterLogs(logs, filter);
+
+    return flowPageResult(filteredLogs, args);
+  }
+
   private async handleGetPolicyViolations(args: any) {
     const { action, namespace, protocol } = args;
     
-    const logs = await this.calicoService.getFlowLogs();
+    const logs = await this.sessions.get(args.cluster).calicoService.getFlowLogs({ startTime: args.startTime, endTime: args.endTime });
     const filter = this.logFilterService.buildPolicyViolationsFilter(action, namespace, protocol);
     const filteredLogs = await this.logFilterService.filterLogs(logs, filter);
+
+    return flowPageResult(filteredLogs, args);
+  }
+
+  private async handleGetHighTrafficFlows(args: ToolArgs<'get_high_traffic_flows'>) {
+    const { minPackets, minBytes } = args;
+    
+    const logs = await this.sessions.get(args.cluster).calicoService.getFlowLogs({ startTime: args.startTime, endTime: args.endTime });
+    const filter = this.logFilterService.buildHighTrafficFilter(minPackets, minBytes);
+    const filteredLogs = await this.logFilterService.filterLogs(logs, filter);
+
+    return flowPageResult(filteredLogs, args);
+  }
+
+  private async handleGetNamespaceFlows(args: ToolArgs<'get_namespace_flows'>) {
+    const { namespace } = args;
     
+    const logs = await this.sessions.get(args.cluster).calicoService.getFlowLogs({ startTime: args.startTime, endTime: args.endTime, namespace });
+    const filter = this.logFilterService.buildNamespaceFilter(namespace);
+    const filteredLogs = await this.logFilterService.filterLogs(logs, filter);
+
+    return flowPageResult(filteredLogs, args);
+  }
+
+  private async handleTraceConnection(args: ToolArgs<'trace_connection'>) {
+    const { source, sourceLabels, sourceNamespace, destination, destLabels, destNamespace, namespace, port, protocol } = args;
+
+    const trace = await this.sessions.get(args.cluster).calicoService.traceConnection({
+      startTime: args.startTime,
+      endTime: args.endTime,
+      source: { name: source, labels: sourceLabels, namespace: sourceNamespace ?? namespace },
+      destination: { name: destination, labels: destLabels, namespace: destNamespace ?? namespace },
+      port,
+      protocol,
+    });
+
     return {
       content: [
         {
           type: 'text',
-          text: JSON.stringify(filteredLogs, null, 2),
+          text: JSON.stringify(trace, null, 2),
         },
       ],
     };
   }
 
-  private async handleGetHighTrafficFlows(args: any) {
-    const { minPackets = 1000, minBytes = 100000 } = args;
-    
-    const logs = await this.calicoService.getFlowLogs();
-    const filter = this.logFilterService.buildHighTrafficFilter(minPackets, minBytes);
-    const filteredLogs = await this.logFilterService.filterLogs(logs, filter);
-    
+  private async handlePolicyUsageReport(args: ToolArgs<'policy_usage_report'>) {
+    const report = await this.sessions.get(args.cluster).calicoService.getPolicyUsageReport(args.namespace, { startTime: args.startTime, endTime: args.endTime });
+
     return {
       content: [
         {
           type: 'text',
-          text: JSON.stringify(filteredLogs, null, 2),
+          text: JSON.stringify(report, null, 2),
         },
       ],
     };
   }
 
-  private async handleGetNamespaceFlows(args: any) {
-    const { namespace } = args;
-    
-    const logs = await this.calicoService.getFlowLogs();
-    const filter = this.logFilterService.buildNamespaceFilter(namespace);
-    const filteredLogs = await this.logFilterService.filterLogs(logs, filter);
-    
+  private async handleStagedPolicyImpact(args: ToolArgs<'staged_policy_impact'>) {
+    const report = await this.sessions.get(args.cluster).calicoService.getStagedPolicyImpact(args.namespace, { startTime: args.startTime, endTime: args.endTime }, args.policy);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(report, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleGetServiceGraph(args: ToolArgs<'get_service_graph'>) {
+    const { namespace, format, level, hideAllowed } = args;
+
+    const logs = await this.sessions.get(args.cluster).calicoService.getFlowLogs({ startTime: args.startTime, endTime: args.endTime, namespace });
+    const graph = buildServiceGraph(logs, { level, hideAllowed });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: renderServiceGraph(graph, format),
+        },
+      ],
+    };
+  }
+
+  private async handleDiffFlows(args: ToolArgs<'diff_flows'>) {
+    const { namespace, volumeChangeRatio, minBytesDelta, maxResults } = args;
+
+    // A window from a snapshot needs no time bound: the snapshot is bounded already
+    const issues: string[] = [];
+    if (!args.beforeSnapshot && !args.beforeEndTime) {
+      issues.push('beforeEndTime: is required unless beforeSnapshot is given');
+    }
+    if (!args.afterSnapshot && !args.afterStartTime) {
+      issues.push('afterStartTime: is required unless afterSnapshot is given');
+    }
+    if (issues.length > 0) {
+      return toolError(`Invalid arguments for diff_flows:\n${issues.join('\n')}`);
+    }
+
+    const readWindow = async (snapshot: string | undefined, range: FlowTimeRange) => {
+      if (snapshot) {
+        const path = resolveSnapshotPath(snapshot);
+        return { range: { ...range, snapshot: path }, logs: snapshotFlowLogs(readFlowSnapshot(path), { ...range, namespace }) };
+      }
+      return { range, logs: await this.sessions.get(args.cluster).calicoService.getFlowLogs({ ...range, namespace }) };
+    };
+    const diff = diffFlows(
+      await readWindow(args.beforeSnapshot, { startTime: args.beforeStartTime, endTime: args.beforeEndTime }),
+      await readWindow(args.afterSnapshot, { startTime: args.afterStartTime, endTime: args.afterEndTime }),
+      { volumeChangeRatio, minBytesDelta, maxResults }
+    );
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(diff, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleSaveSnapshot(args: ToolArgs<'save_snapshot'>) {
+    const { startTime, endTime, namespace } = args;
+    const session = this.sessions.get(args.cluster);
+    const path = resolveSnapshotPath(args.path);
+
+    const snapshot = await session.calicoService.createSnapshot({ startTime, endTime, namespace });
+    writeFlowSnapshot(path, snapshot, args.overwrite);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ cluster: session.name, ...summarizeSnapshot(path, snapshot) }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleLoadSnapshot(args: ToolArgs<'load_snapshot'>) {
+    const session = this.sessions.get(args.cluster);
+    const path = resolveSnapshotPath(args.path);
+
+    const summary = session.calicoService.useSnapshot(path, readFlowSnapshot(path));
+
     return {
       content: [
         {
           type: 'text',
-          text: JSON.stringify(filteredLogs, null, 2),
+          text: `Session "${session.name}" is now offline: flow tools read ${summary.flows} flows from ${path}${summary.context ? ` (saved from context ${summary.context} at ${summary.createdAt})` : ''}. Call connect_to_cluster to read live flows again.\n\n${JSON.stringify(summary, null, 2)}`,
         },
       ],
     };
   }
 
-  private async handleGenerateNetworkPolicies(args: any) {
-    const { namespace, selectorKey } = args;
+  private async handleImportFlowLogs(args: ToolArgs<'import_flow_logs'>) {
+    const session = this.sessions.get(args.cluster);
+    const path = resolveImportPath(args.path);
+
+    const imported = importFelixFlowLogs(path);
+    const snapshot = felixSnapshot(imported);
+    const savedTo = args.savePath ? resolveSnapshotPath(args.savePath) : null;
+    if (savedTo) {
+      writeFlowSnapshot(savedTo, snapshot, args.overwrite);
+    }
+    const summary = session.calicoService.useSnapshot(savedTo || path, snapshot);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Session "${session.name}" is now offline: flow tools read ${summary.flows} flows imported from ${imported.files.length} file(s). Call connect_to_cluster to read live flows again.\n\n${JSON.stringify({
+            ...summary,
+            files: imported.files,
+            savedTo,
+            skippedRecords: imported.skipped,
+            warnings: imported.warnings,
+          }, null, 2)}`,
+        },
+      ],
+    };
+  }
+
+  private async handleGenerateNetworkPolicies(args: ToolArgs<'generate_network_policies'>) {
+    const { namespace, selectorKey, format } = args;
     
-    if (!selectorKey) {
+    const logs = await this.sessions.get(args.cluster).calicoService.getFlowLogs({ startTime: args.startTime, endTime: args.endTime });
+    const aggregatedLogs = this.logFilterService.aggregateLogsForPolicyGeneration(logs, namespace);
+    const { policies, warnings } = this.logFilterService.generateCalicoNetworkPolicies(aggregatedLogs, namespace, selectorKey);
+
+    if (policies.length === 0) {
       return {
         content: [
           {
             type: 'text',
-            text: 'Error: selectorKey is required. Please provide a label key to use for workload grouping (e.g., "app", "service", "component").',
+            text: `No policies generated for namespace ${namespace}: no allowed flows found with workloads labelled "${selectorKey}".${warnings.length > 0 ? `\n\n${warnings.join('\n')}` : ''}`,
+          },
+        ],
+      };
+    }
+
+    if (format === 'json') {
+      const response = {
+        namespace: namespace,
+        selectorKey: selectorKey,
+        policies: policies,
+        warnings: warnings,
+        summary: {
+          totalUniqueFlows: aggregatedLogs.length,
+          totalPolicies: policies.length
+        }
+      };
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(response, null, 2),
           },
         ],
       };
     }
-    
-    const logs = await this.calicoService.getFlowLogs();
-    const aggregatedLogs = this.logFilterService.aggregateLogsForPolicyGeneration(logs, namespace);
-    
-    const response = {
-      namespace: namespace,
-      selectorKey: selectorKey,
-      aggregatedFlows: aggregatedLogs,
-      summary: {
-        totalUniqueFlows: aggregatedLogs.length,
-        analysisNote: "Use this aggregated data to manually create network policies based on observed traffic patterns"
-      }
-    };
     
     return {
       content: [
         {
           type: 'text',
-          text: JSON.stringify(response, null, 2),
+          text: this.logFilterService.renderPoliciesAsYaml(policies),
         },
+        // Kept apart from the YAML so the policies can be applied as returned
+        ...warnings.map(warning => ({ type: 'text', text: `⚠️ ${warning}` })),
       ],
     };
   }
 
-  private async handleGetKubeconfigContexts(args: any) {
+  private async handleGetKubeconfigContexts(args: ToolArgs<'get_kubeconfig_contexts'>) {
     const { kubeconfigPath } = args;
     
     try {
@@ -502,18 +743,11 @@ export class CalicoWhiskerMCPServer {
         ],
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Error reading kubeconfig: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-      };
+      return toolError(`Error reading kubeconfig: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
-  private async handleGetCurrentContext(args: any) {
+  private async handleGetCurrentContext(args: ToolArgs<'get_current_context'>) {
     const { kubeconfigPath } = args;
     
     try {
@@ -542,18 +776,11 @@ export class CalicoWhiskerMCPServer {
         ],
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Error getting current context: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-      };
+      return toolError(`Error getting current context: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
-  private async handleCheckKubeconfig(args: any) {
+  private async handleCheckKubeconfig(args: ToolArgs<'check_kubeconfig'>) {
     const { kubeconfigPath } = args;
     const configPath = kubeconfigPath || this.k8sService.getDefaultKubeconfigPath();
     
@@ -589,7 +816,7 @@ export class CalicoWhiskerMCPServer {
     };
   }
 
-  private async handleDiagnoseConnection(args: any) {
+  private async handleDiagnoseConnection(args: ToolArgs<'diagnose_connection'>) {
     const { kubeconfigPath } = args;
     const configPath = kubeconfigPath || this.k8sService.getDefaultKubeconfigPath();
     
@@ -597,24 +824,26 @@ export class CalicoWhiskerMCPServer {
       // Check if kubeconfig file exists
       const exists = this.k8sService.kubeconfigExists(configPath);
       if (!exists) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Kubeconfig file not found at path: ${configPath}`,
-            },
-          ],
-        };
+        return toolError(`Kubeconfig file not found at path: ${configPath}`);
       }
       
       // Get current context
       const currentContext = await this.k8sService.getCurrentContextInfo(configPath);
       
+      // The session's context is what this server uses; it may differ from the kubeconfig's current-context
+      const session = this.sessions.get(args.cluster);
+      const activeContext = session.context && configPath === session.kubeconfigPath
+        ? session.context
+        : currentContext?.name || null;
+      
       // Check Kubernetes server accessibility
-      const serverAccessible = await this.k8sService.checkServerAccessibility(currentContext);
+      const serverAccessible = await this.k8sService.checkServerAccessibility(
+        activeContext ? { name: activeContext } : undefined,
+        configPath
+      );
       
       // Check Whisker service status
-      const serviceStatus = await this.calicoService.checkWhiskerServiceStatus();
+      const serviceStatus = await session.calicoService.checkWhiskerServiceStatus();
       
       return {
         content: [
@@ -623,6 +852,7 @@ export class CalicoWhiskerMCPServer {
             text: JSON.stringify({
               kubeconfigPath: configPath,
               currentContext: currentContext,
+              activeContext: activeContext,
               serverAccessible: serverAccessible,
               whiskerServiceStatus: serviceStatus,
             }, null, 2),
@@ -630,33 +860,15 @@ export class CalicoWhiskerMCPServer {
         ],
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Error diagnosing connection: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-      };
+      return toolError(`Error diagnosing connection: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
-  private async handleGetNamespaceFlowSummary(args: any) {
+  private async handleGetNamespaceFlowSummary(args: ToolArgs<'get_namespace_flow_summary'>) {
     const { namespace } = args;
-    
-    if (!namespace) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: 'Error: namespace parameter is required',
-          },
-        ],
-      };
-    }
 
     try {
-      const summary = await this.calicoService.getNamespaceFlowSummary(namespace);
+      const summary = await this.sessions.get(args.cluster).calicoService.getNamespaceFlowSummary(namespace, { startTime: args.startTime, endTime: args.endTime });
       
       return {
         content: [
@@ -667,18 +879,11 @@ export class CalicoWhiskerMCPServer {
         ],
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Error generating flow summary for namespace ${namespace}: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-      };
+      return toolError(`Error generating flow summary for namespace ${namespace}: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
-  private async handleAnalyzeBlockedFlows(args: any) {
+  private async handleAnalyzeBlockedFlows(args: ToolArgs<'analyze_blocked_flows'>) {
     const { namespace } = args;
     
     try {
@@ -687,7 +892,7 @@ export class CalicoWhiskerMCPServer {
       // 2. Examines pending triggers to identify blocking policies
       // 3. Retrieves actual policy YAML using kubectl
       // 4. Provides detailed analysis for MCP client
-      const analysis = await this.calicoService.analyzeBlockedFlows(namespace);
+      const analysis = await this.sessions.get(args.cluster).calicoService.analyzeBlockedFlows(namespace, { startTime: args.startTime, endTime: args.endTime });
       
       return {
         content: [
@@ -698,19 +903,17 @@ export class CalicoWhiskerMCPServer {
         ],
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Error analyzing blocked flows${namespace ? ` for namespace ${namespace}` : ''}: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-      };
+      return toolError(`Error analyzing blocked flows${namespace ? ` for namespace ${namespace}` : ''}: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
   async run() {
     const transport = new StdioServerTransport();
+    this.server.onclose = () => {
+      this.watches.forEach(watch => watch.watcher.stop());
+      this.watches.clear();
+      this.subscriptions.stop();
+    };
     await this.server.connect(transport);
     console.error('Calico Whisker MCP Server started');
   }
@@ -1,5 +1,15 @@
 import { spawn, ChildProcess } from 'child_process';
+import { createServer } from 'net';
 import axios from 'axios';
+import * as yaml from 'js-yaml';
+import { ConnectionTrace, TraceRequest, traceConnection, traceFlowQuery } from './connection-trace.js';
+import { FLOW_SNAPSHOT_VERSION, FlowSnapshot, FlowSnapshotSummary, snapshotFlowLogs, summarizeSnapshot } from './flow-snapshot.js';
+import { FlowLogStore, FlowTimeRange } from './flow-store.js';
+import { KubeApiClient, KubeApiError, defaultKubeconfigPath } from './kube-api-client.js';
+import { ClusterPolicy, PolicyUsageReport, buildPolicyUsageReport, toClusterPolicy } from './policy-usage.js';
+import { PortForwardRecord, PortForwardRegistry } from './port-forward-registry.js';
+import { StagedImpactReport, buildStagedImpactReport } from './staged-impact.js';
+import { ALL_FLOW_QUERY_CRITERIA, FlowQuery, applyFlowQuery, planWhiskerQuery } from './whisker-query.js';
 
 export interface FlowLog {
   start_time: string;
@@ -39,21 +49,341 @@ export interface FlowLogsResponse {
   items: FlowLog[];
 }
 
+// How Whisker is reached: a local kubectl port-forward, or the Kubernetes API server's
+// service proxy (no kubectl needed). 'auto' uses port-forward when kubectl is available.
+export type WhiskerTransport = 'auto' | 'port-forward' | 'api-proxy';
+
+export interface WhiskerConfig {
+  namespace: string;
+  serviceName: string;
+  servicePort: number;
+  localPort: number;
+  transport: WhiskerTransport;
+}
+
+const DEFAULT_WHISKER_CONFIG: WhiskerConfig = {
+  namespace: 'calico-system',
+  serviceName: 'whisker',
+  servicePort: 8081,
+  localPort: 8081,
+  transport: 'auto',
+};
+
+const WHISKER_TRANSPORTS: WhiskerTransport[] = ['auto', 'port-forward', 'api-proxy'];
+
+// Kubernetes API locations for the policy kinds reported in flow logs
+const POLICY_RESOURCES: Record<string, { apiPath: string; plural: string; namespaced: boolean }> = {
+  CalicoNetworkPolicy: { apiPath: '/apis/projectcalico.org/v3', plural: 'networkpolicies', namespaced: true },
+  NetworkPolicy: { apiPath: '/apis/networking.k8s.io/v1', plural: 'networkpolicies', namespaced: true },
+  GlobalNetworkPolicy: { apiPath: '/apis/projectcalico.org/v3', plural: 'globalnetworkpolicies', namespaced: false },
+};
+
+export const POLICY_KINDS = Object.keys(POLICY_RESOURCES);
+
+// Staged policies are evaluated as pending policies only, until they are promoted
+const STAGED_POLICY_RESOURCES: Record<string, { apiPath: string; plural: string; namespaced: boolean }> = {
+  StagedNetworkPolicy: { apiPath: '/apis/projectcalico.org/v3', plural: 'stagednetworkpolicies', namespaced: true },
+  StagedKubernetesNetworkPolicy: { apiPath: '/apis/projectcalico.org/v3', plural: 'stagedkubernetesnetworkpolicies', namespaced: true },
+  StagedGlobalNetworkPolicy: { apiPath: '/apis/projectcalico.org/v3', plural: 'stagedglobalnetworkpolicies', namespaced: false },
+};
+
+export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'failed';
+
+export interface ConnectionStatus {
+  state: ConnectionState;
+  transport: 'port-forward' | 'api-proxy';
+  whiskerUrl: string;
+  localPort: number;
+  namespace: string;
+  serviceName: string;
+  servicePort: number;
+  portForwardPid: number | null;
+  connectedSince: string | null;
+  reconnectAttempts: number;
+  lastExit: { code: number | null; at: string } | null;
+  lastHealthCheck: { at: string; healthy: boolean; error?: string } | null;
+  lastError: string | null;
+  // Port-forward recorded for the local port, possibly started by another process (e.g. the CLI `connect` command)
+  recordedPortForward: PortForwardRecord | null;
+  // Set while flows are read from a snapshot instead of Whisker
+  offlineSnapshot: FlowSnapshotSummary | null;
+}
+
+interface SummaryEndpoint {
+  name: string;
+  namespace: string;
+  // Action reported by this side, decorated with emoji ("🚨 Deny"), or "❌ N/A" when it did not report
+  action: string;
+  policies: string[];
+}
+
+/**
+ * One aggregated connection in getNamespaceFlowSummary.
+ */
+export interface NamespaceSummaryFlow {
+  source: SummaryEndpoint;
+  destination: SummaryEndpoint;
+  connection: { protocol: string; port: number };
+  enforcement: {
+    totalPolicies: number;
+    uniquePolicies: string[];
+    policyDetails: {
+      name: string;
+      namespace: string;
+      kind: string;
+      tier: string;
+      action: string;
+      policyIndex: number;
+      ruleIndex: number;
+    }[];
+  };
+  traffic: {
+    packets: { in: number; out: number; total: number };
+    bytes: { in: number; out: number; total: number };
+  };
+  timeRange: { start: string; end: string; duration: number };
+  status: string;
+}
+
+export interface BlockingPolicy {
+  triggerPolicy: Policy;
+  policyYaml: string | null;
+  error?: string;
+  blockingReason: string;
+}
+
+/**
+ * One denied flow in analyzeBlockedFlows, with the policies that blocked it.
+ */
+export interface BlockedFlowAnalysis {
+  flow: {
+    source: string;
+    destination: string;
+    protocol: string;
+    port: number;
+    action: string;
+    reporter: string;
+    timeRange: string;
+  };
+  traffic: { packetsIn: number; packetsOut: number; bytesIn: number; bytesOut: number };
+  blockingPolicies: BlockingPolicy[];
+  analysis: { totalBlockingPolicies: number; recommendation: string };
+}
+
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+const MAX_RECONNECT_ATTEMPTS = 10;
+const HEALTH_CHECK_INTERVAL_MS = 15000;
+const MAX_FAILED_HEALTH_CHECKS = 2;
+
+// Whisker answered 400 to query parameters it does not understand
+class WhiskerQueryRejectedError extends Error {}
+
+function parseTransport(value: string, name: string): WhiskerTransport {
+  if (!WHISKER_TRANSPORTS.includes(value as WhiskerTransport)) {
+    throw new Error(`Invalid ${name}: ${value} (expected one of ${WHISKER_TRANSPORTS.join(', ')})`);
+  }
+  return value as WhiskerTransport;
+}
+
+function parsePort(value: string | number, name: string): number {
+  const port = typeof value === 'number' ? value : Number(value);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`Invalid ${name}: ${value} (expected a port number between 1 and 65535)`);
+  }
+  return port;
+}
+
 export class CalicoWhiskerService {
   private portForwardProcess: ChildProcess | null = null;
-  private readonly WHISKER_URL = 'http://127.0.0.1:8081';
   private readonly WHISKER_ENDPOINT = '/whisker-backend/flows';
   private kubeconfigPath: string | null = null;
+  // Kube context used for every call; null means the kubeconfig's current-context
+  private context: string | null = null;
+  private config: WhiskerConfig;
+  // Whether the local port was chosen explicitly (and must not be swapped for a free one)
+  private localPortExplicit = false;
+  private activeLocalPort: number;
+  private readonly registry = new PortForwardRegistry();
+  // Supervisor state: once a port-forward is established it is kept alive until stopPortForward
+  private supervised = false;
+  private state: ConnectionState = 'disconnected';
+  private reconnectAttempts = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private healthTimer: NodeJS.Timeout | null = null;
+  private failedHealthChecks = 0;
+  private connectedSince: string | null = null;
+  private lastExit: ConnectionStatus['lastExit'] = null;
+  private lastHealthCheck: ConnectionStatus['lastHealthCheck'] = null;
+  private lastError: string | null = null;
+  // Transport chosen by setupPortForward when config.transport is 'auto'
+  private activeTransport: 'port-forward' | 'api-proxy' | null = null;
+  private apiClient: KubeApiClient | null = null;
+  // Local flow history; when set, time-range queries also reach records Whisker no longer holds
+  private flowStore: FlowLogStore | null = null;
+  // Cleared when Whisker rejects query parameters, so later fetches filter client-side only
+  private serverQuerySupported = true;
+  // Offline mode: flows are read from this snapshot and Whisker is not contacted
+  private snapshot: { path: string; snapshot: FlowSnapshot } | null = null;
+
+  constructor(options: Partial<WhiskerConfig> = {}) {
+    this.config = { ...DEFAULT_WHISKER_CONFIG };
+    this.applyConfig(CalicoWhiskerService.configFromEnv());
+    this.applyConfig(options);
+    this.activeLocalPort = this.config.localPort;
+  }
+
+  /**
+   * Read Whisker overrides from WHISKER_NAMESPACE, WHISKER_SERVICE, WHISKER_SERVICE_PORT,
+   * WHISKER_LOCAL_PORT and WHISKER_TRANSPORT.
+   */
+  static configFromEnv(env: NodeJS.ProcessEnv = process.env): Partial<WhiskerConfig> {
+    const config: Partial<WhiskerConfig> = {};
+    if (env.WHISKER_NAMESPACE) config.namespace = env.WHISKER_NAMESPACE;
+    if (env.WHISKER_SERVICE) config.serviceName = env.WHISKER_SERVICE;
+    if (env.WHISKER_SERVICE_PORT) config.servicePort = parsePort(env.WHISKER_SERVICE_PORT, 'WHISKER_SERVICE_PORT');
+    if (env.WHISKER_LOCAL_PORT) config.localPort = parsePort(env.WHISKER_LOCAL_PORT, 'WHISKER_LOCAL_PORT');
+    if (env.WHISKER_TRANSPORT) config.transport = parseTransport(env.WHISKER_TRANSPORT, 'WHISKER_TRANSPORT');
+    return config;
+  }
+
+  /**
+   * Update the Whisker service settings. A running port-forward is stopped if the
+   * settings change, so the next setupPortForward uses the new values.
+   */
+  async configure(options: Partial<WhiskerConfig>): Promise<void> {
+    const previous = { ...this.config };
+    this.applyConfig(options);
+
+    const changed = (Object.keys(previous) as (keyof WhiskerConfig)[])
+      .some(key => previous[key] !== this.config[key]);
+    if (changed && (this.portForwardProcess || this.activeTransport)) {
+      console.error('Whisker settings changed, restarting port-forward on next connect');
+      await this.stopPortForward();
+    }
+    if (!this.portForwardProcess) {
+      this.activeLocalPort = this.config.localPort;
+    }
+  }
+
+  getConfig(): WhiskerConfig {
+    return { ...this.config };
+  }
+
+  getLocalPort(): number {
+    return this.activeLocalPort;
+  }
+
+  getWhiskerUrl(): string {
+    if (this.getTransport() === 'api-proxy') {
+      const { namespace, serviceName, servicePort } = this.config;
+      const client = this.getApiClient();
+      return `${client.getServer()}${client.serviceProxyPath(namespace, serviceName, servicePort, '')}`;
+    }
+    return `http://127.0.0.1:${this.activeLocalPort}`;
+  }
+
+  /**
+   * The transport requests currently go through.
+   */
+  getTransport(): 'port-forward' | 'api-proxy' {
+    return this.activeTransport || (this.config.transport === 'api-proxy' ? 'api-proxy' : 'port-forward');
+  }
+
+  private getApiClient(): KubeApiClient {
+    if (!this.apiClient) {
+      this.apiClient = KubeApiClient.fromKubeconfig(this.kubeconfigPath || defaultKubeconfigPath(), this.context || undefined);
+    }
+    return this.apiClient;
+  }
+
+  private applyConfig(options: Partial<WhiskerConfig>): void {
+    if (options.namespace) this.config.namespace = options.namespace;
+    if (options.serviceName) this.config.serviceName = options.serviceName;
+    if (options.servicePort !== undefined) this.config.servicePort = parsePort(options.servicePort, 'servicePort');
+    if (options.localPort !== undefined) {
+      this.config.localPort = parsePort(options.localPort, 'localPort');
+      this.localPortExplicit = true;
+    }
+    if (options.transport) this.config.transport = parseTransport(options.transport, 'transport');
+  }
+
+  /**
+   * Select the kubeconfig and context used for API calls and the port-forward. The context
+   * is only passed per call, never written to the kubeconfig.
+   */
+  useCluster(kubeconfigPath?: string, context?: string): void {
+    if (kubeconfigPath && kubeconfigPath !== this.kubeconfigPath) {
+      this.kubeconfigPath = kubeconfigPath;
+      this.apiClient = null;
+    }
+    if (context && context !== this.context) {
+      this.context = context;
+      this.apiClient = null;
+    }
+  }
+
+  getContext(): string | null {
+    return this.context;
+  }
+
+  setFlowStore(store: FlowLogStore | null): void {
+    this.flowStore = store;
+  }
 
-  async setupPortForward(kubeconfigPath?: string): Promise<void> {
+  getFlowStore(): FlowLogStore | null {
+    return this.flowStore;
+  }
+
+  /**
+   * Switch to offline mode: getFlowLogs and every analysis built on it read the snapshot
+   * until clearSnapshot is called. Policy lookups need the cluster and report nothing.
+   */
+  useSnapshot(path: string, snapshot: FlowSnapshot): FlowSnapshotSummary {
+    this.snapshot = { path, snapshot };
+    return summarizeSnapshot(path, snapshot);
+  }
+
+  clearSnapshot(): void {
+    this.snapshot = null;
+  }
+
+  isOffline(): boolean {
+    return this.snapshot !== null;
+  }
+
+  /**
+   * Fetch flows and wrap them with the cluster they came from, ready to be written to disk.
+   */
+  async createSnapshot(query: FlowQuery = {}): Promise<FlowSnapshot> {
+    const items = await this.getFlowLogs(query);
+    const source = this.snapshot
+      ? this.snapshot.snapshot.source
+      : {
+        context: this.context,
+        kubeconfigPath: this.kubeconfigPath,
+        whisker: { namespace: this.config.namespace, serviceName: this.config.serviceName, url: this.getWhiskerUrl() },
+      };
+    return { version: FLOW_SNAPSHOT_VERSION, createdAt: new Date().toISOString(), source, query, response: { items } };
+  }
+
+  async setupPortForward(kubeconfigPath?: string, context?: string): Promise<void> {
     if (this.portForwardProcess) {
       console.error('Port-forward already running');
       return;
     }
 
-    // Store kubeconfig path for future use
-    if (kubeconfigPath) {
-      this.kubeconfigPath = kubeconfigPath;
+    // An explicit connect supersedes any pending automatic reconnect
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    // Store kubeconfig path and context for future use
+    this.useCluster(kubeconfigPath, context);
+
+    if (this.config.transport === 'api-proxy') {
+      return this.setupApiProxy();
     }
 
     // Pre-flight checks
@@ -81,38 +411,94 @@ export class CalicoWhiskerService {
         });
       });
     } catch (error) {
+      if (this.config.transport === 'auto') {
+        console.error(`kubectl unavailable (${error instanceof Error ? error.message : String(error)}), using the Kubernetes API service proxy`);
+        return this.setupApiProxy();
+      }
       throw new Error(`Pre-flight check failed: ${error instanceof Error ? error.message : String(error)}`);
     }
 
-    // Check if port 8081 is already in use and kill existing processes
-    await this.killExistingPortForwards();
+    this.activeTransport = 'port-forward';
+    this.state = 'connecting';
+    try {
+      await this.startPortForwardProcess(this.config.localPort);
+    } catch (error) {
+      this.state = 'failed';
+      this.lastError = error instanceof Error ? error.message : String(error);
+      throw error;
+    }
+
+    this.supervised = true;
+    this.reconnectAttempts = 0;
+    this.markConnected();
+    this.startHealthChecks();
+  }
+
+  private async setupApiProxy(): Promise<void> {
+    this.activeTransport = 'api-proxy';
+    this.state = 'connecting';
+
+    const result = await this.probeWhisker();
+    this.lastHealthCheck = { at: new Date().toISOString(), ...result };
+    if (!result.healthy) {
+      this.state = 'failed';
+      this.lastError = result.error || 'Whisker service proxy is not reachable';
+      throw new Error(`Cannot reach Whisker through the Kubernetes API service proxy: ${this.lastError}`);
+    }
+
+    // Each request goes straight to the API server, so there is no process to supervise
+    this.reconnectAttempts = 0;
+    this.markConnected();
+  }
+
+  private async startPortForwardProcess(preferredPort: number): Promise<void> {
+    const { namespace, serviceName, servicePort } = this.config;
+    this.activeLocalPort = await this.resolveLocalPort(preferredPort);
 
     return new Promise((resolve, reject) => {
       const args = [
         'port-forward',
-        'service/whisker',
-        '8081:8081',
+        `service/${serviceName}`,
+        `${this.activeLocalPort}:${servicePort}`,
         '-n',
-        'calico-system'
+        namespace
       ];
 
-      // Add kubeconfig parameter if specified
+      // Add kubeconfig and context parameters if specified
       if (this.kubeconfigPath) {
         args.unshift('--kubeconfig', this.kubeconfigPath);
       }
+      if (this.context) {
+        args.unshift('--context', this.context);
+      }
 
       console.error('Starting port-forward with command:', 'kubectl', args.join(' '));
-      this.portForwardProcess = spawn('kubectl', args);
+      const child = spawn('kubectl', args);
+      this.portForwardProcess = child;
+      const localPort = this.activeLocalPort;
+
+      if (child.pid !== undefined) {
+        this.registry.record({
+          pid: child.pid,
+          ownerPid: process.pid,
+          localPort,
+          namespace,
+          serviceName,
+          kubeconfigPath: this.kubeconfigPath,
+          context: this.context,
+          startedAt: new Date().toISOString()
+        });
+      }
 
       let errorOutput = '';
       let resolved = false;
 
-      this.portForwardProcess.stdout?.on('data', (data) => {
+      child.stdout?.on('data', (data) => {
         const output = data.toString();
         console.error(`Port-forward stdout: ${output.trim()}`);
       });
 
-      this.portForwardProcess.stderr?.on('data', (data) => {
+      child.stderr?.on('data', (data) => {
         const output = data.toString();
         console.error(`Port-forward stderr: ${output.trim()}`);
         errorOutput += output;
@@ -129,17 +515,25 @@ export class CalicoWhiskerService {
         }
       });
 
-      this.portForwardProcess.on('error', (error) => {
+      child.on('error', (error) => {
         console.error('Port-forward spawn error:', error);
-        this.portForwardProcess = null;
+        this.registry.release(localPort, child.pid);
+        if (this.portForwardProcess === child) {
+          this.portForwardProcess = null;
+        }
         if (!resolved) {
           reject(new Error(`Failed to start port-forward: ${error.message}`));
         }
       });
 
-      this.portForwardProcess.on('close', (code) => {
+      child.on('close', (code) => {
         console.error(`Port-forward process exited with code ${code}`);
-        this.portForwardProcess = null;
+        this.registry.release(localPort, child.pid);
+        this.lastExit = { code, at: new Date().toISOString() };
+        // A replacement may already be running if this process was restarted
+        if (this.portForwardProcess === child) {
+          this.portForwardProcess = null;
+        }
         
         if (!resolved) {
           let errorMessage = `Port-forward process exited with code ${code}`;
@@ -150,20 +544,24 @@ export class CalicoWhiskerService {
           // Add specific troubleshooting based on exit code
           if (code === 1) {
             errorMessage += '\n\nTroubleshooting for exit code 1:';
-            errorMessage += '\n- Check if the whisker service exists: kubectl get service whisker -n calico-system';
-            errorMessage += '\n- Verify you have permissions to access calico-system namespace';
+            errorMessage += `\n- Check if the whisker service exists: kubectl get service ${serviceName} -n ${namespace}`;
+            errorMessage += `\n- Verify you have permissions to access ${namespace} namespace`;
             errorMessage += '\n- Ensure your kubeconfig context is correct';
-            errorMessage += '\n- Check if the service is ready: kubectl get pods -n calico-system -l app.kubernetes.io/name=whisker';
+            errorMessage += `\n- Check if the service is ready: kubectl get pods -n ${namespace} -l app.kubernetes.io/name=whisker`;
           }
           
           errorMessage += '\nThis may indicate a Kubernetes connection issue or missing service.';
           reject(new Error(errorMessage));
+        } else if (this.supervised && !this.portForwardProcess) {
+          // An established port-forward dropped (pod restart, network blip): bring it back
+          this.lastError = `Port-forward exited with code ${code}`;
+          this.scheduleReconnect();
         }
       });
 
       // Wait a bit longer for the port-forward to establish with more detailed logging
       setTimeout(() => {
-        if (this.portForwardProcess && this.portForwardProcess.pid && !resolved) {
+        if (this.portForwardProcess === child && child.pid && !resolved) {
           console.error('Port-forward timeout - assuming success');
           resolved = true;
           resolve();
@@ -174,16 +572,243 @@ export class CalicoWhiskerService {
     });
   }
 
-  async getFlowLogs(): Promise<FlowLog[]> {
+  private scheduleReconnect(): void {
+    if (!this.supervised || this.reconnectTimer) {
+      return;
+    }
+
+    if (this.reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+      console.error(`❌ Giving up on port-forward after ${this.reconnectAttempts} reconnect attempts`);
+      this.state = 'failed';
+      this.supervised = false;
+      this.stopHealthChecks();
+      return;
+    }
+
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts, RECONNECT_MAX_DELAY_MS);
+    this.reconnectAttempts++;
+    this.state = 'reconnecting';
+    this.connectedSince = null;
+    console.error(`Reconnecting port-forward in ${delay}ms (attempt ${this.reconnectAttempts}/${MAX_RECONNECT_ATTEMPTS})`);
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      if (!this.supervised) {
+        return;
+      }
+      try {
+        // Reuse the previous local port so existing clients keep working
+        await this.startPortForwardProcess(this.activeLocalPort);
+        this.markConnected();
+
+        // The process may be up without a working tunnel (startup can time out "successfully"),
+        // so the attempt budget is only restored once Whisker actually answers. Otherwise the
+        // health checks restart it and the attempts keep counting towards the limit.
+        const result = await this.probeWhisker();
+        this.lastHealthCheck = { at: new Date().toISOString(), ...result };
+        if (result.healthy) {
+          console.error('✅ Port-forward re-established');
+          this.reconnectAttempts = 0;
+        } else {
+          console.error(`⚠️  Port-forward restarted but Whisker is not responding: ${result.error}`);
+        }
+      } catch (error) {
+        this.lastError = error instanceof Error ? error.message : String(error);
+        console.error('Port-forward reconnect failed:', this.lastError);
+        this.scheduleReconnect();
+      }
+    }, delay);
+  }
+
+  private markConnected(): void {
+    this.state = 'connected';
+    this.failedHealthChecks = 0;
+    this.connectedSince = new Date().toISOString();
+  }
+
+  private startHealthChecks(): void {
+    this.stopHealthChecks();
+    this.healthTimer = setInterval(() => {
+      this.runHealthCheck().catch(error => console.error('Health check error:', error));
+    }, HEALTH_CHECK_INTERVAL_MS);
+    // Health checks alone should not keep the process alive
+    this.healthTimer.unref();
+  }
+
+  private stopHealthChecks(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+  }
+
+  private async runHealthCheck(): Promise<void> {
+    if (this.state !== 'connected') {
+      return;
+    }
+
+    const result = await this.probeWhisker();
+    this.lastHealthCheck = { at: new Date().toISOString(), ...result };
+    if (result.healthy) {
+      this.failedHealthChecks = 0;
+      this.reconnectAttempts = 0;
+      return;
+    }
+
+    this.failedHealthChecks++;
+    console.error(`⚠️  Whisker health check failed (${this.failedHealthChecks}/${MAX_FAILED_HEALTH_CHECKS}): ${result.error}`);
+    if (this.failedHealthChecks >= MAX_FAILED_HEALTH_CHECKS && this.portForwardProcess) {
+      // Killing the process triggers the close handler, which schedules the reconnect
+      console.error('Restarting unresponsive port-forward');
+      this.failedHealthChecks = 0;
+      this.portForwardProcess.kill();
+    }
+  }
+
+  private async probeWhisker(): Promise<{ healthy: boolean; error?: string }> {
+    if (this.getTransport() === 'api-proxy') {
+      const { namespace, serviceName, servicePort } = this.config;
+      try {
+        await this.getApiClient().proxyGet(namespace, serviceName, servicePort, '/', 5000);
+        return { healthy: true };
+      } catch (error) {
+        // An HTTP error from Whisker itself still proves the proxy path works
+        if (error instanceof KubeApiError && error.statusCode !== undefined && error.statusCode < 500) {
+          return { healthy: true };
+        }
+        return { healthy: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    }
+
+    try {
+      // Any HTTP response means the tunnel and the Whisker service are up
+      await axios.get(this.getWhiskerUrl(), { timeout: 5000, validateStatus: () => true });
+      return { healthy: true };
+    } catch (error) {
+      return { healthy: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private async waitForConnection(timeoutMs: number): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (this.supervised && this.state !== 'connected' && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 250));
+    }
+  }
+
+  async getConnectionStatus(probe = true): Promise<ConnectionStatus> {
+    if (probe) {
+      this.lastHealthCheck = { at: new Date().toISOString(), ...(await this.probeWhisker()) };
+    }
+
+    return {
+      state: this.state,
+      transport: this.getTransport(),
+      whiskerUrl: this.getWhiskerUrl(),
+      localPort: this.activeLocalPort,
+      namespace: this.config.namespace,
+      serviceName: this.config.serviceName,
+      servicePort: this.config.servicePort,
+      portForwardPid: this.portForwardProcess?.pid ?? null,
+      connectedSince: this.connectedSince,
+      reconnectAttempts: this.reconnectAttempts,
+      lastExit: this.lastExit,
+      lastHealthCheck: this.lastHealthCheck,
+      lastError: this.lastError,
+      recordedPortForward: this.registry.read(this.activeLocalPort),
+      offlineSnapshot: this.snapshot ? summarizeSnapshot(this.snapshot.path, this.snapshot.snapshot) : null,
+    };
+  }
+
+  /**
+   * Get flow logs from Whisker. Query criteria the backend supports are sent as parameters
+   * and the rest are applied here. With a time range, records from the local flow history
+   * are merged in, a live record replacing the stored version of the same flow. In offline
+   * mode the snapshot is queried instead.
+   */
+  async getFlowLogs(query: FlowQuery = {}): Promise<FlowLog[]> {
+    if (this.snapshot) {
+      return snapshotFlowLogs(this.snapshot.snapshot, query);
+    }
+
+    const { params } = planWhiskerQuery(query);
+
+    // Re-applying pushed-down criteria is a no-op on a backend that honoured them, and keeps
+    // results correct on Whisker versions that ignore unknown parameters
+    if ((!query.startTime && !query.endTime) || !this.flowStore) {
+      return applyFlowQuery(await this.fetchFlowLogs(params), query, ALL_FLOW_QUERY_CRITERIA);
+    }
+
+    const history = this.flowStore.query(query);
+    let live: FlowLog[];
+    try {
+      live = await this.fetchFlowLogs(params);
+    } catch (error) {
+      if (history.length === 0) {
+        throw error;
+      }
+      console.error(`Whisker unavailable, answering from local flow history only: ${error instanceof Error ? error.message : String(error)}`);
+      live = [];
+    }
+
+    // Live counters are at least as recent as the stored ones, so each flow is counted once
+    const merged = new Map(history.map(log => [FlowLogStore.flowKey(log), log]));
+    live.forEach(log => merged.set(FlowLogStore.flowKey(log), log));
+    return applyFlowQuery(Array.from(merged.values()), query, ALL_FLOW_QUERY_CRITERIA);
+  }
+
+  private async fetchFlowLogs(params: Record<string, string> = {}): Promise<FlowLog[]> {
+    const useParams = this.serverQuerySupported && Object.keys(params).length > 0;
+    try {
+      return await this.requestFlowLogs(useParams ? params : {});
+    } catch (error) {
+      if (!useParams || !(error instanceof WhiskerQueryRejectedError)) {
+        throw error;
+      }
+      console.error(`Whisker rejected the flow query parameters (${error.message}); filtering client-side from now on`);
+      this.serverQuerySupported = false;
+      return this.requestFlowLogs({});
+    }
+  }
+
+  private async requestFlowLogs(params: Record<string, string>): Promise<FlowLog[]> {
+    // Give a dropped port-forward a chance to come back before failing the request
+    if (this.supervised && this.state !== 'connected') {
+      await this.waitForConnection(10000);
+    }
+
+    const hasParams = Object.keys(params).length > 0;
+
+    if (this.getTransport() === 'api-proxy') {
+      const { namespace, serviceName, servicePort } = this.config;
+      const path = hasParams ? `${this.WHISKER_ENDPOINT}?${new URLSearchParams(params)}` : this.WHISKER_ENDPOINT;
+      try {
+        const data = await this.getApiClient().proxyGet<FlowLogsResponse>(namespace, serviceName, servicePort, path);
+        return data.items || [];
+      } catch (error) {
+        if (hasParams && error instanceof KubeApiError && error.statusCode === 400) {
+          throw new WhiskerQueryRejectedError(error.message);
+        }
+        throw new Error(`Failed to fetch flow logs through the Kubernetes API proxy: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
     try {
-      const response = await axios.get<FlowLogsResponse>(`${this.WHISKER_URL}${this.WHISKER_ENDPOINT}`, {
+      const response = await axios.get<FlowLogsResponse>(`${this.getWhiskerUrl()}${this.WHISKER_ENDPOINT}`, {
+        params: hasParams ? params : undefined,
         timeout: 10000,
       });
       return response.data.items || [];
     } catch (error) {
       if (axios.isAxiosError(error)) {
+        if (hasParams && error.response?.status === 400) {
+          throw new WhiskerQueryRejectedError(error.message);
+        }
         if (error.code === 'ECONNREFUSED') {
-          throw new Error('Cannot connect to Calico Whisker. Please ensure port-forward is running.');
+          if (this.supervised) {
+            throw new Error(`Cannot connect to Calico Whisker at ${this.getWhiskerUrl()}: port-forward is ${this.state} (attempt ${this.reconnectAttempts}/${MAX_RECONNECT_ATTEMPTS}). Try again shortly.`);
+          }
+          throw new Error(`Cannot connect to Calico Whisker at ${this.getWhiskerUrl()}. Please ensure port-forward is running.`);
         }
         throw new Error(`Failed to fetch flow logs: ${error.message}`);
       }
@@ -191,15 +816,10 @@ export class CalicoWhiskerService {
     }
   }
 
-  async getNamespaceFlowSummary(namespace: string): Promise<string> {
+  async getNamespaceFlowSummary(namespace: string, range: FlowTimeRange = {}): Promise<string> {
     try {
-      // Get all flow logs
-      const allLogs = await this.getFlowLogs();
-      
-      // Filter logs for the specified namespace (either source or destination)
-      const namespaceLogs = allLogs.filter(log => 
-        log.source_namespace === namespace || log.dest_namespace === namespace
-      );
+      // Get flow logs for the namespace (either source or destination)
+      const namespaceLogs = await this.getFlowLogs({ ...range, namespace });
 
       if (namespaceLogs.length === 0) {
         return JSON.stringify({
@@ -342,7 +962,7 @@ export class CalicoWhiskerService {
       // Convert to JSON format
       const flows = Array.from(flowMap.values())
         .sort((a, b) => a.startTime.localeCompare(b.startTime))
-        .map(flow => ({
+        .map((flow): NamespaceSummaryFlow => ({
           source: {
             name: flow.source,
             namespace: flow.sourceNamespace,
@@ -455,7 +1075,19 @@ export class CalicoWhiskerService {
   }
 
   async stopPortForward(): Promise<void> {
+    this.supervised = false;
+    this.stopHealthChecks();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.state = 'disconnected';
+    this.activeTransport = null;
+    this.connectedSince = null;
+    this.reconnectAttempts = 0;
+
     if (this.portForwardProcess) {
+      this.registry.release(this.activeLocalPort, this.portForwardProcess.pid);
       this.portForwardProcess.kill();
       this.portForwardProcess = null;
     }
@@ -465,131 +1097,87 @@ export class CalicoWhiskerService {
     return this.portForwardProcess !== null && this.portForwardProcess.pid !== undefined;
   }
 
-  private async killExistingPortForwards(): Promise<void> {
-    return new Promise((resolve) => {
-      // Use lsof to find processes using port 8081
-      const lsofProcess = spawn('lsof', ['-ti:8081']);
-      
-      let pids = '';
-      
-      lsofProcess.stdout?.on('data', (data) => {
-        pids += data.toString();
-      });
-      
-      lsofProcess.on('close', (code) => {
-        if (code === 0 && pids.trim()) {
-          // Found processes using port 8081, kill them
-          const pidList = pids.trim().split('\n').filter(pid => pid);
-          console.error(`Found ${pidList.length} process(es) using port 8081, killing them...`);
-          
-          let killedCount = 0;
-          pidList.forEach(pid => {
-            try {
-              const killProcess = spawn('kill', ['-9', pid]);
-              killProcess.on('close', (killCode) => {
-                if (killCode === 0) {
-                  console.error(`Successfully killed process ${pid}`);
-                  killedCount++;
-                } else {
-                  console.error(`Failed to kill process ${pid}`);
-                }
-                
-                // Resolve when all processes have been attempted
-                if (killedCount === pidList.length) {
-                  console.error(`✓ Port 8081 cleanup completed. Killed ${killedCount} process(es).`);
-                }
-              });
-            } catch (error) {
-              console.error(`Error killing process ${pid}:`, error);
-            }
-          });
-          
-          // Wait a bit for processes to be killed
-          setTimeout(() => {
-            resolve();
-          }, 1000);
-        } else {
-          // No processes found using port 8081, continue
-          console.error('Port 8081 is available for use');
-          resolve();
-        }
-      });
-      
-      lsofProcess.on('error', (error) => {
-        // lsof command failed, but continue anyway
-        console.error('Warning: Could not check for existing processes on port 8081:', error);
-        resolve();
-      });
-    });
+  private async resolveLocalPort(requested: number): Promise<number> {
+    // Only port-forwards recorded by this tool are ever stopped to free a port
+    if (await this.registry.reapOwned(requested)) {
+      await this.waitForPortFree(requested);
+    }
+
+    if (await this.isPortFree(requested)) {
+      return requested;
+    }
+
+    if (this.localPortExplicit) {
+      // An explicitly requested port is never swapped for another one
+      const holders = await this.registry.describePortHolders(requested);
+      const holderList = holders.length > 0
+        ? holders.map(holder => `${holder.command} (pid ${holder.pid})`).join(', ')
+        : 'an unknown process';
+      throw new Error(`Local port ${requested} is already in use by ${holderList}. Stop that process or choose another local port.`);
+    }
+
+    const freePort = await this.findFreePort();
+    console.error(`Port ${requested} is busy, using free local port ${freePort} instead`);
+    return freePort;
   }
 
-  async checkWhiskerServiceStatus(): Promise<{ available: boolean; details: string }> {
-    return new Promise((resolve) => {
-      const args = ['get', 'service', 'whisker', '-n', 'calico-system', '-o', 'json'];
-      if (this.kubeconfigPath) {
-        args.unshift('--kubeconfig', this.kubeconfigPath);
+  private async waitForPortFree(port: number, timeoutMs = 3000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      if (await this.isPortFree(port)) {
+        return;
       }
+      await new Promise(resolve => setTimeout(resolve, 200));
+    }
+  }
 
-      const process = spawn('kubectl', args);
-      let stdout = '';
-      let stderr = '';
+  private isPortFree(port: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      const server = createServer();
+      server.once('error', () => resolve(false));
+      server.once('listening', () => server.close(() => resolve(true)));
+      server.listen(port, '127.0.0.1');
+    });
+  }
 
-      process.stdout?.on('data', (data) => {
-        stdout += data.toString();
+  private findFreePort(): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const server = createServer();
+      server.once('error', reject);
+      server.listen(0, '127.0.0.1', () => {
+        const address = server.address();
+        const port = typeof address === 'object' && address ? address.port : 0;
+        server.close(() => (port ? resolve(port) : reject(new Error('Could not find a free local port'))));
       });
+    });
+  }
 
-      process.stderr?.on('data', (data) => {
-        stderr += data.toString();
-      });
+  async checkWhiskerServiceStatus(): Promise<{ available: boolean; details: string }> {
+    const { namespace, serviceName, servicePort } = this.config;
 
-      process.on('close', (code) => {
-        if (code === 0) {
-          try {
-            const service = JSON.parse(stdout);
-            const ports = service.spec?.ports || [];
-            const whiskerPort = ports.find((p: any) => p.port === 8081 || p.targetPort === 8081);
-            
-            resolve({
-              available: true,
-              details: `Service found with ${ports.length} port(s). Whisker port: ${whiskerPort ? '8081 available' : 'Port 8081 not found'}`
-            });
-          } catch (error) {
-            resolve({
-              available: false,
-              details: 'Service found but could not parse details'
-            });
-          }
-        } else {
-          resolve({
-            available: false,
-            details: stderr.includes('not found') ? 'Whisker service not found in calico-system namespace' : `Error: ${stderr.trim()}`
-          });
-        }
-      });
+    try {
+      const service = await this.getApiClient().getService(namespace, serviceName);
+      const ports = service.spec?.ports || [];
+      const whiskerPort = ports.find((p: any) => p.port === servicePort || p.targetPort === servicePort);
 
-      process.on('error', () => {
-        resolve({
-          available: false,
-          details: 'kubectl command failed'
-        });
-      });
-    });
+      return {
+        available: true,
+        details: `Service found with ${ports.length} port(s). Whisker port: ${whiskerPort ? `${servicePort} available` : `Port ${servicePort} not found`}`
+      };
+    } catch (error) {
+      return {
+        available: false,
+        details: error instanceof KubeApiError && error.statusCode === 404
+          ? `Whisker service ${serviceName} not found in ${namespace} namespace`
+          : `Error: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
   }
 
-  async analyzeBlockedFlows(namespace?: string): Promise<string> {
+  async analyzeBlockedFlows(namespace?: string, range: FlowTimeRange = {}): Promise<string> {
     try {
-      // Get all flow logs
-      const allLogs = await this.getFlowLogs();
-      
-      // Filter for blocked flows (action === 'Deny')
-      let blockedLogs = allLogs.filter(log => log.action === 'Deny');
-      
-      // If namespace is specified, filter by namespace
-      if (namespace) {
-        blockedLogs = blockedLogs.filter(log => 
-          log.source_namespace === namespace || log.dest_namespace === namespace
-        );
-      }
+      // Get blocked flows (action === 'Deny'), optionally for one namespace
+      const blockedLogs = await this.getFlowLogs({ ...range, namespace, action: 'Deny' });
 
       if (blockedLogs.length === 0) {
         return JSON.stringify({
@@ -601,8 +1189,8 @@ export class CalicoWhiskerService {
 
       // Analyze each blocked flow and identify blocking policies
       const analysisResults = await Promise.all(
-        blockedLogs.map(async (log) => {
-          const blockingPolicies = [];
+        blockedLogs.map(async (log): Promise<BlockedFlowAnalysis> => {
+          const blockingPolicies: BlockingPolicy[] = [];
           
           // Extract blocking policies from pending triggers
           if (log.policies?.pending) {
@@ -719,67 +1307,97 @@ export class CalicoWhiskerService {
     }
   }
 
-  private async retrievePolicyDetails(policyName: string, policyNamespace: string, policyKind: string): Promise<string | null> {
-    return new Promise((resolve) => {
-      let resourceType = '';
-      
-      // Map policy kind to kubectl resource type
-      switch (policyKind) {
-        case 'CalicoNetworkPolicy':
-          resourceType = 'caliconetworkpolicy';
-          break;
-        case 'NetworkPolicy':
-          resourceType = 'networkpolicy';
-          break;
-        case 'GlobalNetworkPolicy':
-          resourceType = 'globalnetworkpolicy';
-          break;
-        default:
-          resolve(null);
-          return;
-      }
+  /**
+   * Trace the flows between two workloads and the policies deciding them.
+   */
+  async traceConnection(request: TraceRequest): Promise<ConnectionTrace> {
+    const logs = await this.getFlowLogs(traceFlowQuery(request));
+    return traceConnection(logs, request);
+  }
 
-      const args = ['get', resourceType, policyName, '-o', 'yaml'];
-      
-      // Add namespace if specified and not a global policy
-      if (policyNamespace && policyKind !== 'GlobalNetworkPolicy') {
-        args.push('-n', policyNamespace);
-      }
-      
-      // Add kubeconfig if specified
-      if (this.kubeconfigPath) {
-        args.unshift('--kubeconfig', this.kubeconfigPath);
-      }
+  /**
+   * Count policy and rule hits in the flow window and flag cluster policies and rules that
+   * never matched. Global policies are only included when no namespace is given.
+   */
+  async getPolicyUsageReport(namespace?: string, range: FlowTimeRange = {}): Promise<PolicyUsageReport> {
+    const logs = await this.getFlowLogs({ ...range, namespace });
+    const { policies, warnings } = await this.listClusterPolicies(namespace);
+    return buildPolicyUsageReport(logs, policies, namespace, warnings);
+  }
 
-      const process = spawn('kubectl', args);
-      let stdout = '';
-      let stderr = '';
+  /**
+   * List the enforced policy kinds from the Kubernetes API. A kind that can't be listed
+   * (CRD not installed, no RBAC permission) is reported as a warning instead of failing.
+   */
+  async listClusterPolicies(namespace?: string): Promise<{ policies: ClusterPolicy[]; warnings: string[] }> {
+    const { items, warnings } = await this.listPolicyResources(POLICY_RESOURCES, namespace);
+    return { policies: items.map(({ kind, item }) => toClusterPolicy(kind, item)), warnings };
+  }
 
-      process.stdout?.on('data', (data) => {
-        stdout += data.toString();
-      });
+  /**
+   * Report, per staged policy, the connections it would newly deny or allow once promoted,
+   * with a go/no-go recommendation. Staged policies that no flow reached are listed too.
+   */
+  async getStagedPolicyImpact(namespace?: string, range: FlowTimeRange = {}, policyName?: string): Promise<StagedImpactReport> {
+    const logs = await this.getFlowLogs({ ...range, namespace });
+    const { items, warnings } = await this.listPolicyResources(STAGED_POLICY_RESOURCES, namespace);
+    const staged = items.map(({ kind, item }) => {
+      const { name, namespace: policyNamespace, tier } = toClusterPolicy(kind, item);
+      return { kind, name, namespace: policyNamespace, tier };
+    });
+    return buildStagedImpactReport(logs, staged, namespace, policyName, warnings);
+  }
 
-      process.stderr?.on('data', (data) => {
-        stderr += data.toString();
-      });
+  private async listPolicyResources(
+    resources: Record<string, { apiPath: string; plural: string; namespaced: boolean }>,
+    namespace?: string
+  ): Promise<{ items: { kind: string; item: any }[]; warnings: string[] }> {
+    const items: { kind: string; item: any }[] = [];
+    const warnings: string[] = [];
 
-      process.on('close', (code) => {
-        if (code === 0) {
-          resolve(stdout.trim());
-        } else {
-          resolve(null);
-        }
-      });
+    if (this.snapshot) {
+      warnings.push(`Policies were not listed from the cluster: offline mode (snapshot ${this.snapshot.path})`);
+      return { items, warnings };
+    }
 
-      process.on('error', () => {
-        resolve(null);
-      });
+    for (const [kind, resource] of Object.entries(resources)) {
+      if (namespace && !resource.namespaced) {
+        continue;
+      }
+      try {
+        const list = await this.getApiClient().listResources(resource.apiPath, resource.plural, resource.namespaced ? namespace : undefined);
+        list.forEach(item => items.push({ kind, item }));
+      } catch (error) {
+        warnings.push(`Could not list ${kind} resources: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
 
-      // Timeout after 10 seconds
-      setTimeout(() => {
-        process.kill();
-        resolve(null);
-      }, 10000);
-    });
+    return { items, warnings };
+  }
+
+  /**
+   * Fetch a policy as YAML, or null if the kind is unknown or the policy can't be read.
+   */
+  async retrievePolicyDetails(policyName: string, policyNamespace: string, policyKind: string): Promise<string | null> {
+    const resource = POLICY_RESOURCES[policyKind];
+    if (!resource || this.snapshot) {
+      return null;
+    }
+
+    try {
+      const policy = await this.getApiClient().getResource(
+        resource.apiPath,
+        resource.plural,
+        policyName,
+        resource.namespaced && policyNamespace ? policyNamespace : undefined
+      );
+      // Match `kubectl get -o yaml`, which hides managed fields
+      if (policy.metadata) {
+        delete policy.metadata.managedFields;
+      }
+      return yaml.dump(policy, { lineWidth: -1 }).trim();
+    } catch {
+      return null;
+    }
   }
 }
\ No newline at end of file
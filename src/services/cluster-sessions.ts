@@ -0,0 +1,130 @@
+import { CalicoWhiskerService, WhiskerConfig } from './calico-whisker.js';
+import { FlowCollector } from './flow-collector.js';
+import { FlowLogStore } from './flow-store.js';
+import { KubernetesService } from './kubernetes.js';
+
+export interface ClusterSession {
+  // Session name, which is the kube context it is bound to ('default' when none is known)
+  name: string;
+  context: string | null;
+  kubeconfigPath: string;
+  connectedAt: string | null;
+  calicoService: CalicoWhiskerService;
+  k8sService: KubernetesService;
+  // Background poller that keeps this cluster's flow history
+  collector: FlowCollector;
+}
+
+export interface ConnectOptions {
+  context?: string;
+  kubeconfig?: string;
+  whisker?: Partial<WhiskerConfig>;
+}
+
+const DEFAULT_SESSION = 'default';
+
+/**
+ * Keeps one Kubernetes connection and Whisker port-forward per kube context, so several
+ * clusters can be queried side by side.
+ */
+export class ClusterSessionManager {
+  private readonly sessions = new Map<string, ClusterSession>();
+  private defaultSessionName: string | null = null;
+
+  async connect(options: ConnectOptions): Promise<ClusterSession> {
+    const kubeconfigPath = options.kubeconfig || new KubernetesService().getDefaultKubeconfigPath();
+    const context = options.context || await this.resolveCurrentContext(kubeconfigPath);
+    const name = context || DEFAULT_SESSION;
+
+    let session = this.sessions.get(name);
+    if (session && session.kubeconfigPath !== kubeconfigPath) {
+      // Same context name from a different kubeconfig is a different cluster
+      session.collector.stop();
+      await session.calicoService.stopPortForward();
+      session = undefined;
+    }
+
+    if (!session) {
+      session = this.createSession(name, context, kubeconfigPath, new KubernetesService());
+    }
+
+    // Connecting means reading live flows again
+    session.calicoService.clearSnapshot();
+    await session.calicoService.configure(options.whisker || {});
+    session.calicoService.useCluster(kubeconfigPath, context || undefined);
+    await session.k8sService.connect(context || undefined, kubeconfigPath);
+
+    this.defaultSessionName = name;
+    return session;
+  }
+
+  /**
+   * Mark a session connected once its Whisker connection is up and start collecting its
+   * flow history.
+   */
+  markConnected(session: ClusterSession): void {
+    session.connectedAt = new Date().toISOString();
+    session.collector.start();
+  }
+
+  /**
+   * Look up a session by name, or the most recently connected one. Without any session
+   * an unconnected default is returned, which talks to an existing local port-forward.
+   */
+  get(name?: string): ClusterSession {
+    if (name) {
+      const session = this.sessions.get(name);
+      if (!session) {
+        const known = Array.from(this.sessions.keys());
+        throw new Error(`Unknown cluster session "${name}". ${known.length > 0 ? `Connected sessions: ${known.join(', ')}` : 'No sessions are connected; use connect_to_cluster first.'}`);
+      }
+      return session;
+    }
+
+    if (this.defaultSessionName) {
+      return this.sessions.get(this.defaultSessionName)!;
+    }
+
+    let session = this.sessions.get(DEFAULT_SESSION);
+    if (!session) {
+      const k8sService = new KubernetesService();
+      session = this.createSession(DEFAULT_SESSION, null, k8sService.getDefaultKubeconfigPath(), k8sService);
+    }
+    return session;
+  }
+
+  getDefaultSessionName(): string | null {
+    return this.defaultSessionName;
+  }
+
+  list(): ClusterSession[] {
+    return Array.from(this.sessions.values());
+  }
+
+  private createSession(name: string, context: string | null, kubeconfigPath: string, k8sService: KubernetesService): ClusterSession {
+    const calicoService = new CalicoWhiskerService();
+    const store = FlowLogStore.forCluster(name);
+    calicoService.setFlowStore(store);
+
+    const session: ClusterSession = {
+      name,
+      context,
+      kubeconfigPath,
+      connectedAt: null,
+      calicoService,
+      k8sService,
+      collector: new FlowCollector(calicoService, store),
+    };
+    this.sessions.set(name, session);
+    return session;
+  }
+
+  private async resolveCurrentContext(kubeconfigPath: string): Promise<string | null> {
+    try {
+      const current = await new KubernetesService().getCurrentContextInfo(kubeconfigPath);
+      return current ? current.name : null;
+    } catch {
+      return null;
+    }
+  }
+}
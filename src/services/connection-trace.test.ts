@@ -0,0 +1,101 @@
+import { Policy } from './calico-whisker.js';
+import { terminalPolicy, traceConnection } from './connection-trace.js';
+import { makeFlow } from './test-fixtures.js';
+
+function policy(overrides: Partial<Policy> = {}): Policy {
+  return {
+    kind: 'CalicoNetworkPolicy', name: 'allow-api', namespace: 'shop', tier: 'default',
+    action: 'Allow', policy_index: 0, rule_index: 0, trigger: null,
+    ...overrides,
+  };
+}
+
+const request = { source: { name: 'frontend', namespace: 'shop' }, destination: { labels: 'app=api' }, port: 8080 };
+
+describe('terminalPolicy', () => {
+  it('returns the first hit in evaluation order that does not pass to the next tier', () => {
+    const pass = policy({ name: 'platform', tier: 'platform', action: 'Pass', policy_index: 0 });
+    const deny = policy({ name: 'deny-all', action: 'Deny', policy_index: 2, rule_index: -1 });
+    const allow = policy({ policy_index: 1, rule_index: 0 });
+    expect(terminalPolicy([deny, pass, allow])).toBe(allow);
+    expect(terminalPolicy([pass, deny])).toBe(deny);
+    expect(terminalPolicy([pass])).toBeNull();
+    expect(terminalPolicy(undefined)).toBeNull();
+  });
+});
+
+describe('traceConnection', () => {
+  it('matches workloads by name prefix, labels, port and protocol', () => {
+    const trace = traceConnection([
+      makeFlow({ policies: { enforced: [policy()], pending: [] } }),
+      makeFlow({ reporter: 'Dst', policies: { enforced: [policy()], pending: [] } }),
+      makeFlow({ dest_port: 9090 }),
+      makeFlow({ dest_labels: 'app=cache' }),
+      makeFlow({ source_namespace: 'bank' }),
+      makeFlow({ protocol: 'udp' }),
+    ], { ...request, protocol: 'TCP' });
+    expect(trace.verdict).toBe('allowed');
+    expect(trace.pendingVerdict).toBe('allowed');
+    expect(trace.summary).toEqual({ totalFlows: 2, byReporter: { Src: 1, Dst: 1 }, allowed: 2, denied: 0 });
+    expect(trace.explanation).toBe('All matching flows were allowed.');
+  });
+
+  it('denies the connection when one reporter denies it, whatever the other reported', () => {
+    const deny = policy({ name: 'lockdown', action: 'Deny', policy_index: 1, rule_index: -1 });
+    const trace = traceConnection([
+      makeFlow({ policies: { enforced: [policy()], pending: [] } }),
+      makeFlow({ reporter: 'Dst', action: 'Deny', policies: { enforced: [deny], pending: [] } }),
+    ], request);
+    expect(trace.verdict).toBe('denied');
+    expect(trace.deniedAt).toEqual(['destination']);
+    expect(trace.explanation).toBe('The connection is denied at the destination by CalicoNetworkPolicy shop/lockdown (tier default, rule -1).');
+  });
+
+  it('reports mixed outcomes on one side as mixed', () => {
+    const trace = traceConnection([
+      makeFlow(),
+      makeFlow({ start_time: '2026-10-18T10:05:00Z', action: 'Deny' }),
+    ], request);
+    expect(trace.verdict).toBe('mixed');
+    expect(trace.deniedAt).toEqual(['source']);
+    expect(trace.explanation).toMatch(/^Some matching flows were denied at the source\./);
+  });
+
+  it('follows Pass to the policy of the next tier', () => {
+    const pass = policy({ name: 'platform', tier: 'platform', action: 'Pass', policy_index: 0, rule_index: 2 });
+    const deny = policy({ name: 'deny-api', action: 'Deny', policy_index: 1 });
+    const trace = traceConnection([makeFlow({ action: 'Allow', policies: { enforced: [pass, deny], pending: [] } })], request);
+    expect(trace.verdict).toBe('denied');
+  });
+
+  it('predicts the verdict once pending policies are enforced', () => {
+    const staged = policy({ kind: 'StagedNetworkPolicy', name: 'lockdown', action: 'Deny', rule_index: -1 });
+    const trace = traceConnection([
+      makeFlow({ policies: { enforced: [policy()], pending: [staged] } }),
+      makeFlow({ reporter: 'Dst', policies: { enforced: [policy()], pending: [policy()] } }),
+    ], request);
+    expect(trace.verdict).toBe('allowed');
+    expect(trace.pendingVerdict).toBe('denied');
+    expect(trace.explanation).toContain('Once pending (staged) policies are enforced the connection would be denied.');
+  });
+
+  it('lists policies source first, enforced before pending, then by index', () => {
+    const trace = traceConnection([
+      makeFlow({ reporter: 'Dst', policies: { enforced: [policy({ name: 'ingress' })], pending: [] } }),
+      makeFlow({ policies: { enforced: [policy({ name: 'second', policy_index: 1 }), policy({ name: 'first' })], pending: [policy({ name: 'staged' })] } }),
+      makeFlow({ start_time: '2026-10-18T10:05:00Z', policies: { enforced: [policy({ name: 'first' })], pending: [] } }),
+    ], request);
+    expect(trace.policies.map(p => `${p.reporter}:${p.stage}:${p.name}:${p.flows}`)).toEqual([
+      'Src:enforced:first:2',
+      'Src:enforced:second:1',
+      'Src:pending:staged:1',
+      'Dst:enforced:ingress:1',
+    ]);
+  });
+
+  it('reports no traffic and checks selectors', () => {
+    expect(traceConnection([], request).verdict).toBe('no-traffic');
+    expect(() => traceConnection([], { ...request, source: { namespace: 'shop' } })).toThrow('The source workload needs a name or labels');
+    expect(() => traceConnection([], { ...request, destination: { labels: 'app' } })).toThrow('Invalid label selector "app"');
+  });
+});
@@ -0,0 +1,268 @@
+import { FlowLog, Policy } from './calico-whisker.js';
+import { FlowTimeRange } from './flow-store.js';
+import { FlowQuery } from './whisker-query.js';
+
+/**
+ * One end of a traced connection. A workload is picked by name (or name prefix, since
+ * Whisker aggregates replicas as e.g. "frontend-7d4f9c-*"), by labels, or both.
+ */
+export interface WorkloadSelector {
+  name?: string;
+  // Label selector such as "app=frontend,tier=web"; every label must match
+  labels?: string;
+  namespace?: string;
+}
+
+export interface TraceRequest extends FlowTimeRange {
+  source: WorkloadSelector;
+  destination: WorkloadSelector;
+  port?: number;
+  protocol?: string;
+}
+
+// 'mixed' means some matching flows were allowed and others denied (e.g. per port or over time)
+export type TraceVerdict = 'allowed' | 'denied' | 'mixed' | 'no-traffic';
+
+export interface TracedPolicy {
+  // Reporter that evaluated the policy: Src (egress from the source) or Dst (ingress at the destination)
+  reporter: string;
+  stage: 'enforced' | 'pending';
+  kind: string;
+  name: string;
+  namespace: string;
+  tier: string;
+  action: string;
+  policyIndex: number;
+  ruleIndex: number;
+  trigger: Policy | null;
+  flows: number;
+}
+
+export interface ConnectionTrace {
+  source: WorkloadSelector;
+  destination: WorkloadSelector;
+  port: number | null;
+  protocol: string | null;
+  verdict: TraceVerdict;
+  // What the verdict becomes once pending (staged) policies are enforced
+  pendingVerdict: TraceVerdict;
+  deniedAt: ('source' | 'destination')[];
+  explanation: string;
+  summary: {
+    totalFlows: number;
+    byReporter: Record<string, number>;
+    allowed: number;
+    denied: number;
+  };
+  policies: TracedPolicy[];
+  flows: FlowLog[];
+}
+
+/**
+ * Criteria to fetch the flows a trace needs; the workload matching happens in traceConnection.
+ */
+export function traceFlowQuery(request: TraceRequest): FlowQuery {
+  return {
+    startTime: request.startTime,
+    endTime: request.endTime,
+    sourceNamespace: request.source.namespace,
+    destNamespace: request.destination.namespace,
+  };
+}
+
+/**
+ * Explain whether the source reaches the destination, from the flows reported for the pair.
+ * Each flow's outcome is the first policy in its enforced (or pending) list that does not
+ * Pass to the next tier, falling back to the flow's action.
+ */
+export function traceConnection(logs: FlowLog[], request: TraceRequest): ConnectionTrace {
+  checkSelector(request.source, 'source');
+  checkSelector(request.destination, 'destination');
+
+  const sourceLabels = parseSelector(request.source.labels);
+  const destLabels = parseSelector(request.destination.labels);
+  const protocol = request.protocol?.toLowerCase();
+
+  const flows = logs.filter(log =>
+    matchesWorkload(log.source_name, log.source_namespace, log.source_labels, request.source, sourceLabels)
+    && matchesWorkload(log.dest_name, log.dest_namespace, log.dest_labels, request.destination, destLabels)
+    && (request.port === undefined || log.dest_port === request.port)
+    && (!protocol || (log.protocol || '').toLowerCase() === protocol)
+  );
+
+  const enforcedOutcomes = flows.map(log => ({ log, action: outcome(log.policies?.enforced, log.action) }));
+  const pendingOutcomes = flows.map(log => ({ log, action: outcome(log.policies?.pending, outcome(log.policies?.enforced, log.action)) }));
+  const verdict = connectionVerdict(enforcedOutcomes);
+  const pendingVerdict = connectionVerdict(pendingOutcomes);
+
+  const deniedAt: ('source' | 'destination')[] = [];
+  if (enforcedOutcomes.some(o => o.action === 'Deny' && isSourceReporter(o.log.reporter))) deniedAt.push('source');
+  if (enforcedOutcomes.some(o => o.action === 'Deny' && !isSourceReporter(o.log.reporter))) deniedAt.push('destination');
+
+  const byReporter: Record<string, number> = {};
+  flows.forEach(log => {
+    byReporter[log.reporter] = (byReporter[log.reporter] || 0) + 1;
+  });
+
+  const policies = collectPolicies(flows);
+
+  return {
+    source: request.source,
+    destination: request.destination,
+    port: request.port ?? null,
+    protocol: request.protocol ?? null,
+    verdict,
+    pendingVerdict,
+    deniedAt,
+    explanation: explain(verdict, pendingVerdict, deniedAt, policies),
+    summary: {
+      totalFlows: flows.length,
+      byReporter,
+      allowed: enforcedOutcomes.filter(o => o.action !== 'Deny').length,
+      denied: enforcedOutcomes.filter(o => o.action === 'Deny').length,
+    },
+    policies,
+    flows,
+  };
+}
+
+function checkSelector(selector: WorkloadSelector, side: string): void {
+  if (!selector.name && !selector.labels) {
+    throw new Error(`The ${side} workload needs a name or labels`);
+  }
+}
+
+/**
+ * Parse "key=value,key2=value2" into pairs. Throws on entries without "=".
+ */
+function parseSelector(selector?: string): [string, string][] {
+  if (!selector) {
+    return [];
+  }
+  return selector.split(',').map(part => part.trim()).filter(part => part.length > 0).map(part => {
+    const index = part.indexOf('=');
+    if (index <= 0) {
+      throw new Error(`Invalid label selector "${part}" (expected key=value)`);
+    }
+    return [part.slice(0, index).trim(), part.slice(index + 1).trim()] as [string, string];
+  });
+}
+
+// Whisker reports labels as "app=frontend | version=v1"
+function parseFlowLabels(labels: string): Map<string, string> {
+  const result = new Map<string, string>();
+  (labels || '').split('|').forEach(pair => {
+    const index = pair.indexOf('=');
+    if (index > 0) {
+      result.set(pair.slice(0, index).trim(), pair.slice(index + 1).trim());
+    }
+  });
+  return result;
+}
+
+function matchesWorkload(name: string, namespace: string, labels: string, selector: WorkloadSelector, selectorLabels: [string, string][]): boolean {
+  if (selector.namespace && namespace !== selector.namespace) return false;
+  if (selector.name && !(name || '').startsWith(selector.name.replace(/\*$/, ''))) return false;
+  if (selectorLabels.length > 0) {
+    const flowLabels = parseFlowLabels(labels);
+    if (!selectorLabels.every(([key, value]) => flowLabels.get(key) === value)) return false;
+  }
+  return true;
+}
+
+/**
+ * The policy that decided a flow: the first hit, in evaluation order, that does not Pass to the next tier.
+ */
+export function terminalPolicy(policies: Policy[] | undefined): Policy | null {
+  const ordered = [...(policies || [])].sort((a, b) => a.policy_index - b.policy_index || a.rule_index - b.rule_index);
+  return ordered.find(policy => policy.action !== 'Pass') || null;
+}
+
+function outcome(policies: Policy[] | undefined, fallback: string): string {
+  return terminalPolicy(policies)?.action || fallback;
+}
+
+function combine(actions: string[]): TraceVerdict {
+  if (actions.length === 0) return 'no-traffic';
+  const denied = actions.filter(action => action === 'Deny').length;
+  if (denied === 0) return 'allowed';
+  return denied === actions.length ? 'denied' : 'mixed';
+}
+
+/**
+ * A connection needs both ends to allow it, so one reporter denying everything denies the
+ * connection even if the other reporter allowed its side.
+ */
+function connectionVerdict(outcomes: { log: FlowLog; action: string }[]): TraceVerdict {
+  const atSource = combine(outcomes.filter(o => isSourceReporter(o.log.reporter)).map(o => o.action));
+  const atDestination = combine(outcomes.filter(o => !isSourceReporter(o.log.reporter)).map(o => o.action));
+  const sides = [atSource, atDestination].filter(verdict => verdict !== 'no-traffic');
+  if (sides.length === 0) return 'no-traffic';
+  if (sides.includes('denied')) return 'denied';
+  return sides.includes('mixed') ? 'mixed' : 'allowed';
+}
+
+function isSourceReporter(reporter: string): boolean {
+  return (reporter || '').toLowerCase().startsWith('src');
+}
+
+/**
+ * Distinct policies hit by the flows, in evaluation order: source reporter first, enforced
+ * before pending, then by policy and rule index.
+ */
+function collectPolicies(flows: FlowLog[]): TracedPolicy[] {
+  const byKey = new Map<string, TracedPolicy>();
+  flows.forEach(log => {
+    (['enforced', 'pending'] as const).forEach(stage => {
+      (log.policies?.[stage] || []).forEach(policy => {
+        const key = JSON.stringify([log.reporter, stage, policy.kind, policy.namespace, policy.name, policy.tier, policy.action, policy.policy_index, policy.rule_index]);
+        const existing = byKey.get(key);
+        if (existing) {
+          existing.flows++;
+          return;
+        }
+        byKey.set(key, {
+          reporter: log.reporter,
+          stage,
+          kind: policy.kind,
+          name: policy.name,
+          namespace: policy.namespace,
+          tier: policy.tier,
+          action: policy.action,
+          policyIndex: policy.policy_index,
+          ruleIndex: policy.rule_index,
+          trigger: policy.trigger,
+          flows: 1,
+        });
+      });
+    });
+  });
+
+  return Array.from(byKey.values()).sort((a, b) =>
+    Number(isSourceReporter(b.reporter)) - Number(isSourceReporter(a.reporter))
+    || (a.stage === b.stage ? 0 : a.stage === 'enforced' ? -1 : 1)
+    || a.policyIndex - b.policyIndex
+    || a.ruleIndex - b.ruleIndex
+  );
+}
+
+function explain(verdict: TraceVerdict, pendingVerdict: TraceVerdict, deniedAt: string[], policies: TracedPolicy[]): string {
+  if (verdict === 'no-traffic') {
+    return 'No flows match this source, destination and port in the selected time window, so reachability cannot be determined. Generate traffic or widen the time range and trace again.';
+  }
+
+  const parts: string[] = [];
+  if (verdict === 'allowed') {
+    parts.push('All matching flows were allowed.');
+  } else {
+    const denying = policies
+      .filter(policy => policy.stage === 'enforced' && policy.action === 'Deny')
+      .map(policy => `${policy.kind} ${policy.namespace ? `${policy.namespace}/` : ''}${policy.name} (tier ${policy.tier}, rule ${policy.ruleIndex})`);
+    parts.push(`${verdict === 'denied' ? 'The connection is' : 'Some matching flows were'} denied at the ${deniedAt.join(' and ')}${denying.length > 0 ? ` by ${Array.from(new Set(denying)).join(', ')}` : ''}.`);
+  }
+
+  if (pendingVerdict !== verdict) {
+    parts.push(`Once pending (staged) policies are enforced the connection would be ${pendingVerdict === 'mixed' ? 'partly denied' : pendingVerdict}.`);
+  }
+  return parts.join(' ');
+}
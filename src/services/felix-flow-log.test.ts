@@ -0,0 +1,166 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { gzipSync } from 'zlib';
+import { felixSnapshot, fromFelixFlowLog, importFelixFlowLogs, parseFelixFlowLogs, parseFelixPolicy, resolveImportPath } from './felix-flow-log.js';
+
+function record(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    start_time: 1792317600,
+    end_time: 1792317900,
+    action: 'allow',
+    reporter: 'src',
+    source_namespace: 'shop',
+    source_name: '-',
+    source_name_aggr: 'frontend-7d9c8b-*',
+    source_labels: { labels: ['app=frontend', 'tier=web'] },
+    dest_namespace: 'shop',
+    dest_name: '-',
+    dest_name_aggr: 'api-5f6d7c-*',
+    dest_labels: { labels: ['app=api'] },
+    proto: 6,
+    dest_port: 8080,
+    packets_in: 10,
+    packets_out: 12,
+    bytes_in: 1000,
+    bytes_out: 1200,
+    policies: { all_policies: ['0|default|shop/default.allow-api|allow|0'] },
+    ...overrides,
+  };
+}
+
+describe('resolveImportPath', () => {
+  const env = { WHISKER_IMPORT_DIR: '/var/flowlogs' };
+
+  it('places paths under WHISKER_IMPORT_DIR, the directory itself included', () => {
+    expect(resolveImportPath('node-1/flows.log', env)).toBe('/var/flowlogs/node-1/flows.log');
+    expect(resolveImportPath('.', env)).toBe('/var/flowlogs');
+  });
+
+  it('rejects absolute paths and paths leaving the directory', () => {
+    expect(() => resolveImportPath('/etc/passwd', env)).toThrow('must be relative to the import directory');
+    expect(() => resolveImportPath('../secrets', env)).toThrow('outside the import directory');
+    expect(() => resolveImportPath('node-1/../../secrets', env)).toThrow('outside the import directory');
+  });
+});
+
+describe('parseFelixPolicy', () => {
+  it('reads Calico policies and strips the tier prefix', () => {
+    expect(parseFelixPolicy('0|security|shop/security.allow-web|allow|2')).toEqual({
+      kind: 'CalicoNetworkPolicy',
+      name: 'allow-web',
+      namespace: 'shop',
+      tier: 'security',
+      action: 'Allow',
+      policy_index: 0,
+      rule_index: 2,
+      trigger: null,
+    });
+    expect(parseFelixPolicy('1|default|default.deny-all|deny|-1')).toMatchObject({
+      kind: 'GlobalNetworkPolicy',
+      name: 'deny-all',
+      namespace: '',
+      action: 'Deny',
+      rule_index: -1,
+    });
+  });
+
+  it('recognizes Kubernetes, staged and profile entries', () => {
+    expect(parseFelixPolicy('0|default|shop/knp.default.allow-api|allow|0')).toMatchObject({ kind: 'NetworkPolicy', name: 'allow-api' });
+    expect(parseFelixPolicy('0|default|shop/staged:knp.default.allow-api|allow|0')).toMatchObject({ kind: 'StagedKubernetesNetworkPolicy', name: 'allow-api' });
+    expect(parseFelixPolicy('0|default|shop/default.staged:lockdown|deny|-1')).toMatchObject({ kind: 'StagedNetworkPolicy', name: 'lockdown' });
+    expect(parseFelixPolicy('0|default|staged:default.lockdown|deny|-1')).toMatchObject({ kind: 'StagedGlobalNetworkPolicy', name: 'lockdown' });
+    expect(parseFelixPolicy('2|__PROFILE__|__PROFILE__.kns.shop|allow|0')).toMatchObject({ kind: 'Profile', name: 'kns.shop' });
+  });
+
+  it('rejects malformed entries', () => {
+    expect(() => parseFelixPolicy('default|allow-web')).toThrow('unrecognized policy');
+  });
+});
+
+describe('fromFelixFlowLog', () => {
+  it('converts a record to the Whisker shape', () => {
+    expect(fromFelixFlowLog(record())).toMatchObject({
+      start_time: '2026-10-18T10:00:00Z',
+      end_time: '2026-10-18T10:05:00Z',
+      action: 'Allow',
+      reporter: 'Src',
+      source_name: 'frontend-7d9c8b-*',
+      source_labels: 'app=frontend | tier=web',
+      dest_name: 'api-5f6d7c-*',
+      protocol: 'tcp',
+      dest_port: 8080,
+      bytes_out: 1200,
+    });
+  });
+
+  it('keeps staged policies out of the enforced list of older records', () => {
+    const log = fromFelixFlowLog(record({
+      policies: { all_policies: ['0|default|shop/default.staged:lockdown|deny|-1', '1|default|shop/knp.default.allow-api|allow|0'] },
+    }));
+    expect(log.policies.pending.map(policy => policy.name)).toEqual(['lockdown', 'allow-api']);
+    expect(log.policies.enforced.map(policy => policy.name)).toEqual(['allow-api']);
+  });
+
+  it('uses separate enforced and pending lists when Felix logs them', () => {
+    const log = fromFelixFlowLog(record({
+      policies: { enforced_policies: ['0|default|shop/knp.default.allow-api|allow|0'], pending_policies: [] },
+    }));
+    expect(log.policies.enforced).toHaveLength(1);
+    expect(log.policies.pending).toEqual([]);
+  });
+
+  it('rejects records without valid times', () => {
+    expect(() => fromFelixFlowLog(record({ start_time: undefined }))).toThrow('start_time/end_time');
+    expect(() => fromFelixFlowLog('flow')).toThrow('not a flow log record');
+  });
+});
+
+describe('parseFelixFlowLogs', () => {
+  it('reads JSON lines and skips bad records with warnings', () => {
+    const content = [JSON.stringify(record()), 'not json', '', JSON.stringify(record({ end_time: 'never' }))].join('\n');
+    const result = parseFelixFlowLogs(content, 'flows.log');
+    expect(result.logs).toHaveLength(1);
+    expect(result.skipped).toBe(2);
+    expect(result.warnings).toEqual([
+      'flows.log: line 2 is not valid JSON',
+      'flows.log: record 4: missing or invalid start_time/end_time',
+    ]);
+  });
+
+  it('reads a JSON array', () => {
+    expect(parseFelixFlowLogs(JSON.stringify([record(), record({ reporter: 'dst' })])).logs.map(log => log.reporter)).toEqual(['Src', 'Dst']);
+    expect(() => parseFelixFlowLogs('[{', 'flows.json')).toThrow('flows.json is not valid JSON');
+  });
+});
+
+describe('importFelixFlowLogs', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'felix-flow-log-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('imports every flows.log file in a directory, gzipped ones included', () => {
+    writeFileSync(join(directory, 'flows.log'), JSON.stringify(record()));
+    writeFileSync(join(directory, 'flows.log.1.gz'), gzipSync(JSON.stringify(record({ reporter: 'dst' }))));
+    writeFileSync(join(directory, 'other.log'), 'ignored');
+
+    const result = importFelixFlowLogs(directory);
+    expect(result.files).toEqual([join(directory, 'flows.log'), join(directory, 'flows.log.1.gz')]);
+    expect(result.logs.map(log => log.reporter)).toEqual(['Src', 'Dst']);
+
+    const snapshot = felixSnapshot(result);
+    expect(snapshot.source).toBeNull();
+    expect(snapshot.importedFrom).toEqual({ format: 'felix', files: result.files });
+    expect(snapshot.response.items).toBe(result.logs);
+  });
+
+  it('fails for a directory without flow logs', () => {
+    expect(() => importFelixFlowLogs(directory)).toThrow('No flows.log files found');
+  });
+});
@@ -0,0 +1,250 @@
+import { readdirSync, readFileSync, statSync } from 'fs';
+import { homedir } from 'os';
+import { join, resolve } from 'path';
+import { gunzipSync } from 'zlib';
+import { FlowLog, Policy } from './calico-whisker.js';
+import { FLOW_SNAPSHOT_VERSION, FlowSnapshot, resolveInsideDirectory } from './flow-snapshot.js';
+
+export interface FelixImportResult {
+  logs: FlowLog[];
+  files: string[];
+  // Records that could not be converted, with the first few reasons
+  skipped: number;
+  warnings: string[];
+}
+
+const MAX_WARNINGS = 10;
+
+// Felix writes the IP protocol by name, but some shippers keep the number
+const PROTOCOL_NAMES: Record<string, string> = {
+  '1': 'icmp',
+  '6': 'tcp',
+  '17': 'udp',
+  '58': 'icmp6',
+  '132': 'sctp',
+};
+
+/**
+ * Resolve a flow log path given to the MCP server. Like snapshot paths, it is relative to a
+ * directory the server owns, WHISKER_IMPORT_DIR (default ~/.calico-whisker-mcp/imports), and
+ * must stay inside it; the directory itself imports every flows.log* file in it.
+ */
+export function resolveImportPath(path: string, env: NodeJS.ProcessEnv = process.env): string {
+  const baseDir = resolve(env.WHISKER_IMPORT_DIR || join(homedir(), '.calico-whisker-mcp', 'imports'));
+  return resolveInsideDirectory(baseDir, path, 'import', true);
+}
+
+/**
+ * Read Calico flow logs written by Felix (the flows.log JSON lines, rotated and gzipped
+ * files included) and convert them to Whisker's FlowLog shape. A directory imports every
+ * flows.log* file in it.
+ */
+export function importFelixFlowLogs(path: string): FelixImportResult {
+  const files = statSync(path).isDirectory()
+    ? readdirSync(path).filter(name => name.startsWith('flows.log')).sort().map(name => join(path, name))
+    : [path];
+  if (files.length === 0) {
+    throw new Error(`No flows.log files found in ${path}`);
+  }
+
+  const result: FelixImportResult = { logs: [], files, skipped: 0, warnings: [] };
+  files.forEach(file => {
+    const raw = readFileSync(file);
+    const content = (file.endsWith('.gz') ? gunzipSync(raw) : raw).toString('utf8');
+    const parsed = parseFelixFlowLogs(content, file);
+    result.logs.push(...parsed.logs);
+    result.skipped += parsed.skipped;
+    result.warnings.push(...parsed.warnings.slice(0, MAX_WARNINGS - result.warnings.length));
+  });
+  return result;
+}
+
+/**
+ * Wrap imported flows as a snapshot, so they can be saved and analysed offline like flows
+ * saved from Whisker.
+ */
+export function felixSnapshot(result: FelixImportResult): FlowSnapshot {
+  return {
+    version: FLOW_SNAPSHOT_VERSION,
+    createdAt: new Date().toISOString(),
+    source: null,
+    importedFrom: { format: 'felix', files: result.files },
+    query: {},
+    response: { items: result.logs },
+  };
+}
+
+/**
+ * Convert Felix flow log records, one JSON object per line or a JSON array of them.
+ */
+export function parseFelixFlowLogs(content: string, origin = 'input'): Omit<FelixImportResult, 'files'> {
+  const result: Omit<FelixImportResult, 'files'> = { logs: [], skipped: 0, warnings: [] };
+  const skip = (reason: string) => {
+    result.skipped++;
+    if (result.warnings.length < MAX_WARNINGS) {
+      result.warnings.push(`${origin}: ${reason}`);
+    }
+  };
+
+  let records: { record: unknown; line: number }[];
+  const trimmed = content.trim();
+  if (trimmed.startsWith('[')) {
+    try {
+      records = (JSON.parse(trimmed) as unknown[]).map((record, index) => ({ record, line: index + 1 }));
+    } catch (error) {
+      throw new Error(`${origin} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  } else {
+    records = [];
+    content.split('\n').forEach((text, index) => {
+      if (!text.trim()) {
+        return;
+      }
+      try {
+        records.push({ record: JSON.parse(text), line: index + 1 });
+      } catch {
+        skip(`line ${index + 1} is not valid JSON`);
+      }
+    });
+  }
+
+  records.forEach(({ record, line }) => {
+    try {
+      result.logs.push(fromFelixFlowLog(record));
+    } catch (error) {
+      skip(`record ${line}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+  return result;
+}
+
+/**
+ * Convert one Felix flow log record. Felix reports times in unix seconds, labels as
+ * {"labels": ["key=value", ...]} and policy hits as "index|tier|name|action|rule" strings.
+ */
+export function fromFelixFlowLog(record: any): FlowLog {
+  if (!record || typeof record !== 'object') {
+    throw new Error('not a flow log record');
+  }
+  const startTime = toIsoTime(record.start_time);
+  const endTime = toIsoTime(record.end_time);
+  if (!startTime || !endTime) {
+    throw new Error('missing or invalid start_time/end_time');
+  }
+
+  const policies = record.policies || {};
+  let enforced: Policy[];
+  let pending: Policy[];
+  if (Array.isArray(policies.enforced_policies) || Array.isArray(policies.pending_policies)) {
+    enforced = parsePolicyList(policies.enforced_policies);
+    pending = parsePolicyList(policies.pending_policies);
+  } else {
+    // Older Felix versions log a single list: the evaluation including staged policies,
+    // which is what Whisker reports as pending. Staged policies are never enforced.
+    pending = parsePolicyList(policies.all_policies);
+    enforced = pending.filter(policy => !policy.kind.startsWith('Staged'));
+  }
+
+  return {
+    start_time: startTime,
+    end_time: endTime,
+    action: capitalize(record.action),
+    source_name: endpointName(record.source_name_aggr, record.source_name),
+    source_namespace: record.source_namespace || '-',
+    source_labels: formatLabels(record.source_labels),
+    dest_name: endpointName(record.dest_name_aggr, record.dest_name),
+    dest_namespace: record.dest_namespace || '-',
+    dest_labels: formatLabels(record.dest_labels),
+    protocol: PROTOCOL_NAMES[String(record.proto ?? record.protocol)] || String(record.proto ?? record.protocol ?? ''),
+    dest_port: Number(record.dest_port) || 0,
+    reporter: capitalize(record.reporter),
+    policies: { enforced, pending },
+    packets_in: Number(record.packets_in) || 0,
+    packets_out: Number(record.packets_out) || 0,
+    bytes_in: Number(record.bytes_in) || 0,
+    bytes_out: Number(record.bytes_out) || 0,
+  };
+}
+
+/**
+ * Parse a Felix policy hit such as "0|default|shop/default.allow-web|allow|2". The name carries
+ * the namespace and the tier, and marks the kind: "knp.default." for Kubernetes policies,
+ * "staged:" for staged policies and "__PROFILE__." for profiles. A rule index of -1 is the end
+ * of the tier.
+ */
+export function parseFelixPolicy(hit: string): Policy {
+  const parts = hit.split('|');
+  if (parts.length < 5) {
+    throw new Error(`unrecognized policy "${hit}"`);
+  }
+  const [index, tier, qualifiedName, action, ruleIndex] = parts;
+
+  const slash = qualifiedName.indexOf('/');
+  const namespace = slash >= 0 ? qualifiedName.slice(0, slash) : '';
+  let name = slash >= 0 ? qualifiedName.slice(slash + 1) : qualifiedName;
+
+  const staged = name.includes('staged:');
+  name = name.replace('staged:', '');
+  let kind: string;
+  if (name.startsWith('__PROFILE__.')) {
+    kind = 'Profile';
+    name = name.slice('__PROFILE__.'.length);
+  } else if (name.startsWith('knp.default.')) {
+    kind = staged ? 'StagedKubernetesNetworkPolicy' : 'NetworkPolicy';
+    name = name.slice('knp.default.'.length);
+  } else {
+    kind = namespace
+      ? (staged ? 'StagedNetworkPolicy' : 'CalicoNetworkPolicy')
+      : (staged ? 'StagedGlobalNetworkPolicy' : 'GlobalNetworkPolicy');
+    if (name.startsWith(`${tier}.`)) {
+      name = name.slice(tier.length + 1);
+    }
+  }
+
+  return {
+    kind,
+    name,
+    namespace,
+    tier,
+    action: capitalize(action),
+    policy_index: Number(index),
+    rule_index: Number(ruleIndex),
+    trigger: null,
+  };
+}
+
+function parsePolicyList(list: unknown): Policy[] {
+  return Array.isArray(list) ? list.map(hit => parseFelixPolicy(String(hit))) : [];
+}
+
+// Seconds since the epoch, as Felix writes them, or a time string from a shipper
+function toIsoTime(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  const seconds = Number(value);
+  const date = Number.isFinite(seconds) ? new Date(seconds * 1000) : new Date(String(value));
+  return Number.isNaN(date.getTime()) ? null : date.toISOString().replace('.000Z', 'Z');
+}
+
+// Whisker shows aggregated names (e.g. "frontend-7d9c8b-*"); "-" means the field is unset
+function endpointName(aggregated: unknown, name: unknown): string {
+  if (typeof aggregated === 'string' && aggregated && aggregated !== '-') {
+    return aggregated;
+  }
+  return typeof name === 'string' && name ? name : '-';
+}
+
+// Whisker joins labels as "key=value | key=value"
+function formatLabels(labels: any): string {
+  if (typeof labels === 'string') {
+    return labels === '-' ? '' : labels;
+  }
+  const list = Array.isArray(labels?.labels) ? labels.labels : Array.isArray(labels) ? labels : [];
+  return list.map(String).join(' | ');
+}
+
+function capitalize(value: unknown): string {
+  const text = typeof value === 'string' ? value : '';
+  return text ? text.charAt(0).toUpperCase() + text.slice(1).toLowerCase() : text;
+}
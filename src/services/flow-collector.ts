@@ -0,0 +1,112 @@
+import { CalicoWhiskerService } from './calico-whisker.js';
+import { FlowLogStore, FlowStoreStats } from './flow-store.js';
+
+export interface FlowCollectorStatus {
+  running: boolean;
+  intervalSeconds: number;
+  lastPollAt: string | null;
+  lastAdded: number;
+  totalAdded: number;
+  lastError: string | null;
+  store: FlowStoreStats;
+}
+
+const DEFAULT_INTERVAL_SECONDS = 60;
+
+/**
+ * Polls Whisker in the background and persists every flow it returns, so history survives
+ * after records fall out of Whisker's in-memory window.
+ */
+export class FlowCollector {
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private lastPollAt: string | null = null;
+  private lastAdded = 0;
+  private totalAdded = 0;
+  private lastError: string | null = null;
+
+  constructor(
+    private readonly calicoService: CalicoWhiskerService,
+    private readonly store: FlowLogStore,
+    private readonly intervalSeconds = FlowCollector.intervalFromEnv()
+  ) {}
+
+  /**
+   * Poll interval from WHISKER_HISTORY_INTERVAL in seconds; 0 disables collection.
+   */
+  static intervalFromEnv(env: NodeJS.ProcessEnv = process.env): number {
+    if (env.WHISKER_HISTORY_INTERVAL === undefined) {
+      return DEFAULT_INTERVAL_SECONDS;
+    }
+    const interval = Number(env.WHISKER_HISTORY_INTERVAL);
+    if (!Number.isFinite(interval) || interval < 0) {
+      throw new Error(`Invalid WHISKER_HISTORY_INTERVAL: ${env.WHISKER_HISTORY_INTERVAL} (expected seconds, 0 to disable)`);
+    }
+    return interval;
+  }
+
+  start(): void {
+    if (this.timer || this.intervalSeconds === 0) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      void this.poll();
+    }, this.intervalSeconds * 1000);
+    // Don't keep the process alive just for history collection
+    this.timer.unref();
+    void this.poll();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  getLastError(): string | null {
+    return this.lastError;
+  }
+
+  /**
+   * Fetch from Whisker once and store the new records. Returns how many were added.
+   */
+  async poll(): Promise<number> {
+    // A snapshot's flows are already on disk
+    if (this.polling || this.calicoService.isOffline()) {
+      return 0;
+    }
+    this.polling = true;
+    try {
+      const logs = await this.calicoService.getFlowLogs();
+      this.lastAdded = this.store.append(logs);
+      this.totalAdded += this.lastAdded;
+      this.store.prune();
+      this.lastError = null;
+      return this.lastAdded;
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      console.error(`Flow history collection failed: ${this.lastError}`);
+      return 0;
+    } finally {
+      this.lastPollAt = new Date().toISOString();
+      this.polling = false;
+    }
+  }
+
+  getStatus(): FlowCollectorStatus {
+    return {
+      running: this.isRunning(),
+      intervalSeconds: this.intervalSeconds,
+      lastPollAt: this.lastPollAt,
+      lastAdded: this.lastAdded,
+      totalAdded: this.totalAdded,
+      lastError: this.lastError,
+      store: this.store.getStats(),
+    };
+  }
+}
@@ -0,0 +1,55 @@
+import { aggregateConnections, diffFlows } from './flow-diff.js';
+import { makeFlow } from './test-fixtures.js';
+
+const before = { startTime: '2026-10-18T09:00:00Z', endTime: '2026-10-18T10:00:00Z' };
+const after = { startTime: '2026-10-18T10:00:00Z', endTime: '2026-10-18T11:00:00Z' };
+
+describe('aggregateConnections', () => {
+  it('merges actions and takes counts from the busiest reporter', () => {
+    const connections = aggregateConnections([
+      makeFlow(),
+      makeFlow({ action: 'Deny', bytes_in: 0, bytes_out: 0 }),
+      makeFlow({ reporter: 'Dst', bytes_in: 500, bytes_out: 500 }),
+    ]);
+    expect(Array.from(connections.entries())).toEqual([[
+      'shop/frontend-* → shop/api-* tcp/8080',
+      { source: 'shop/frontend-*', destination: 'shop/api-*', protocol: 'tcp', port: 8080, actions: ['Allow', 'Deny'], flows: 2, bytes: 2000, packets: 40 },
+    ]]);
+  });
+});
+
+describe('diffFlows', () => {
+  it('reports new, disappeared and unchanged connections', () => {
+    const diff = diffFlows(
+      { range: before, logs: [makeFlow(), makeFlow({ dest_name: 'legacy-*' })] },
+      { range: after, logs: [makeFlow(), makeFlow({ dest_name: 'cache-*', dest_port: 6379 })] }
+    );
+    expect(diff.summary).toEqual({ newConnections: 1, disappearedConnections: 1, actionChanges: 0, volumeChanges: 0, unchanged: 1 });
+    expect(diff.newConnections[0].destination).toBe('shop/cache-*');
+    expect(diff.disappearedConnections[0].destination).toBe('shop/legacy-*');
+    expect(diff.before).toMatchObject({ ...before, flows: 2, connections: 2 });
+  });
+
+  it('reports connections that start being denied as action changes', () => {
+    const diff = diffFlows({ range: before, logs: [makeFlow()] }, { range: after, logs: [makeFlow({ action: 'Deny' })] });
+    expect(diff.actionChanges).toEqual([
+      { connection: 'shop/frontend-* → shop/api-* tcp/8080', change: 'Allow→Deny', before: ['Allow'], after: ['Deny'] },
+    ]);
+  });
+
+  it('only reports volume changes above both thresholds', () => {
+    const busy = makeFlow({ bytes_in: 10000, bytes_out: 10000 });
+    const doubled = makeFlow({ bytes_in: 20000, bytes_out: 20000 });
+    expect(diffFlows({ range: before, logs: [busy] }, { range: after, logs: [doubled] }).volumeChanges)
+      .toEqual([{ connection: 'shop/frontend-* → shop/api-* tcp/8080', beforeBytes: 20000, afterBytes: 40000, deltaBytes: 20000, ratio: 1 }]);
+    expect(diffFlows({ range: before, logs: [busy] }, { range: after, logs: [doubled] }, { minBytesDelta: 50000 }).volumeChanges).toEqual([]);
+    expect(diffFlows({ range: before, logs: [doubled] }, { range: after, logs: [busy] }).volumeChanges[0].deltaBytes).toBe(-20000);
+  });
+
+  it('limits each category to maxResults', () => {
+    const logs = [1, 2, 3].map(port => makeFlow({ dest_port: port }));
+    const diff = diffFlows({ range: before, logs: [] }, { range: after, logs }, { maxResults: 2 });
+    expect(diff.summary.newConnections).toBe(3);
+    expect(diff.newConnections).toHaveLength(2);
+  });
+});
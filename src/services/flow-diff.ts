@@ -0,0 +1,168 @@
+import { FlowLog } from './calico-whisker.js';
+import { FlowTimeRange } from './flow-store.js';
+
+export interface FlowDiffOptions {
+  // Report a volume change when bytes grow or shrink by at least this fraction (1 = doubled or halved)
+  volumeChangeRatio?: number;
+  // ...and by at least this many bytes, so small connections don't flood the report
+  minBytesDelta?: number;
+  // Maximum entries per category; the summary always has the full counts
+  maxResults?: number;
+}
+
+// A compared window: a time range, read from the cluster or from a saved snapshot
+export interface FlowDiffWindow extends FlowTimeRange {
+  snapshot?: string;
+}
+
+export interface ConnectionStats {
+  source: string;
+  destination: string;
+  protocol: string;
+  port: number;
+  // Actions seen for the connection, e.g. ["Allow"] or ["Allow", "Deny"]
+  actions: string[];
+  flows: number;
+  bytes: number;
+  packets: number;
+}
+
+export interface FlowDiff {
+  before: FlowDiffWindow & { flows: number; connections: number };
+  after: FlowDiffWindow & { flows: number; connections: number };
+  summary: {
+    newConnections: number;
+    disappearedConnections: number;
+    actionChanges: number;
+    volumeChanges: number;
+    unchanged: number;
+  };
+  newConnections: ConnectionStats[];
+  disappearedConnections: ConnectionStats[];
+  actionChanges: { connection: string; change: string; before: string[]; after: string[] }[];
+  volumeChanges: { connection: string; beforeBytes: number; afterBytes: number; deltaBytes: number; ratio: number | null }[];
+}
+
+const DEFAULT_VOLUME_CHANGE_RATIO = 1;
+const DEFAULT_MIN_BYTES_DELTA = 10 * 1024;
+const DEFAULT_MAX_RESULTS = 50;
+
+/**
+ * Aggregate flows per connection: source, destination, protocol and port, like the flow summary
+ * but with the action as an attribute, so a connection that starts being denied is a change
+ * rather than a new and a disappeared connection. Both reporters usually report the same
+ * traffic, so the flow count and volumes are those of the reporter that saw the most bytes.
+ */
+export function aggregateConnections(logs: FlowLog[]): Map<string, ConnectionStats> {
+  const connections = new Map<string, ConnectionStats & { byReporter: Map<string, ConnectionVolume> }>();
+
+  logs.forEach(log => {
+    const source = endpoint(log.source_namespace, log.source_name);
+    const destination = endpoint(log.dest_namespace, log.dest_name);
+    const key = `${source} → ${destination} ${log.protocol}/${log.dest_port}`;
+    let connection = connections.get(key);
+    if (!connection) {
+      connection = { source, destination, protocol: log.protocol, port: log.dest_port, actions: [], flows: 0, bytes: 0, packets: 0, byReporter: new Map() };
+      connections.set(key, connection);
+    }
+
+    if (!connection.actions.includes(log.action)) {
+      connection.actions.push(log.action);
+      connection.actions.sort();
+    }
+    const volume = connection.byReporter.get(log.reporter) || { flows: 0, bytes: 0, packets: 0 };
+    volume.flows++;
+    volume.bytes += (log.bytes_in || 0) + (log.bytes_out || 0);
+    volume.packets += (log.packets_in || 0) + (log.packets_out || 0);
+    connection.byReporter.set(log.reporter, volume);
+  });
+
+  const result = new Map<string, ConnectionStats>();
+  connections.forEach(({ byReporter, ...connection }, key) => {
+    const busiest = Array.from(byReporter.values())
+      .reduce((best, volume) => (volume.bytes - best.bytes || volume.packets - best.packets || volume.flows - best.flows) > 0 ? volume : best);
+    result.set(key, { ...connection, ...busiest });
+  });
+  return result;
+}
+
+type ConnectionVolume = Pick<ConnectionStats, 'flows' | 'bytes' | 'packets'>;
+
+/**
+ * Compare the connections of two windows. Volumes are compared as totals, so the windows
+ * should be of similar length for volume changes to be meaningful.
+ */
+export function diffFlows(
+  before: { range: FlowDiffWindow; logs: FlowLog[] },
+  after: { range: FlowDiffWindow; logs: FlowLog[] },
+  options: FlowDiffOptions = {}
+): FlowDiff {
+  const ratioThreshold = options.volumeChangeRatio ?? DEFAULT_VOLUME_CHANGE_RATIO;
+  const minBytesDelta = options.minBytesDelta ?? DEFAULT_MIN_BYTES_DELTA;
+  const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+
+  const beforeConnections = aggregateConnections(before.logs);
+  const afterConnections = aggregateConnections(after.logs);
+  const byBytes = (a: ConnectionStats, b: ConnectionStats) => b.bytes - a.bytes;
+
+  const newConnections = Array.from(afterConnections.entries())
+    .filter(([key]) => !beforeConnections.has(key))
+    .map(([, stats]) => stats)
+    .sort(byBytes);
+  const disappearedConnections = Array.from(beforeConnections.entries())
+    .filter(([key]) => !afterConnections.has(key))
+    .map(([, stats]) => stats)
+    .sort(byBytes);
+
+  const actionChanges: FlowDiff['actionChanges'] = [];
+  const volumeChanges: FlowDiff['volumeChanges'] = [];
+  let unchanged = 0;
+  afterConnections.forEach((afterStats, key) => {
+    const beforeStats = beforeConnections.get(key);
+    if (!beforeStats) {
+      return;
+    }
+
+    let changed = false;
+    if (beforeStats.actions.join(',') !== afterStats.actions.join(',')) {
+      actionChanges.push({ connection: key, change: `${beforeStats.actions.join('+')}→${afterStats.actions.join('+')}`, before: beforeStats.actions, after: afterStats.actions });
+      changed = true;
+    }
+
+    const deltaBytes = afterStats.bytes - beforeStats.bytes;
+    const ratio = beforeStats.bytes > 0 ? deltaBytes / beforeStats.bytes : null;
+    // A drop to half the volume is as notable as a doubling
+    const shrinkRatio = afterStats.bytes > 0 ? -deltaBytes / afterStats.bytes : null;
+    const significant = Math.abs(deltaBytes) >= minBytesDelta
+      && (ratio === null || shrinkRatio === null || ratio >= ratioThreshold || shrinkRatio >= ratioThreshold);
+    if (significant) {
+      volumeChanges.push({ connection: key, beforeBytes: beforeStats.bytes, afterBytes: afterStats.bytes, deltaBytes, ratio: ratio === null ? null : Math.round(ratio * 100) / 100 });
+      changed = true;
+    }
+
+    if (!changed) {
+      unchanged++;
+    }
+  });
+  volumeChanges.sort((a, b) => Math.abs(b.deltaBytes) - Math.abs(a.deltaBytes));
+
+  return {
+    before: { ...before.range, flows: before.logs.length, connections: beforeConnections.size },
+    after: { ...after.range, flows: after.logs.length, connections: afterConnections.size },
+    summary: {
+      newConnections: newConnections.length,
+      disappearedConnections: disappearedConnections.length,
+      actionChanges: actionChanges.length,
+      volumeChanges: volumeChanges.length,
+      unchanged,
+    },
+    newConnections: newConnections.slice(0, maxResults),
+    disappearedConnections: disappearedConnections.slice(0, maxResults),
+    actionChanges: actionChanges.slice(0, maxResults),
+    volumeChanges: volumeChanges.slice(0, maxResults),
+  };
+}
+
+function endpoint(namespace: string, name: string): string {
+  return namespace && namespace !== '-' ? `${namespace}/${name}` : name;
+}
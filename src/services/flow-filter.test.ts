@@ -0,0 +1,65 @@
+import { compileFlowFilter, validateFlowFilter } from './flow-filter.js';
+import { JqFilterEngine } from './jq-engine.js';
+
+describe('validateFlowFilter', () => {
+  it('accepts nested filters', () => {
+    const filter = {
+      and: [
+        { field: 'action', op: 'eq', value: 'Deny' },
+        { not: { field: 'dest_port', op: 'in', value: [53, 443] } },
+        { anyPolicy: 'pending', where: { field: 'trigger.kind', op: 'eq', value: 'StagedNetworkPolicy' } },
+      ],
+    };
+    expect(validateFlowFilter(filter)).toEqual(filter);
+  });
+
+  it('reports the path of the first problem', () => {
+    expect(() => validateFlowFilter({ or: [{ field: 'action', op: 'eq', value: 'Deny' }, { field: 'pod', op: 'eq', value: 'x' }] }))
+      .toThrow('filter.or[1].field must be one of');
+    expect(() => validateFlowFilter({ field: 'source_name', op: 'contains', value: 3 }))
+      .toThrow('filter.value must be a string for "contains"');
+    expect(() => validateFlowFilter({ field: 'action', op: 'exists', value: true }))
+      .toThrow('filter.value is not used with "exists"');
+  });
+
+  it('rejects unknown keys and nested anyPolicy', () => {
+    expect(() => validateFlowFilter({ field: 'action', op: 'eq', value: 'Deny', extra: 1 }))
+      .toThrow('unknown property "extra"');
+    expect(() => validateFlowFilter({ anyPolicy: 'enforced', where: { anyPolicy: 'pending', where: { field: 'name', op: 'exists' } } }))
+      .toThrow('cannot be nested');
+  });
+});
+
+describe('compileFlowFilter', () => {
+  const engine = new JqFilterEngine();
+  const flows = [
+    { action: 'Deny', source_name: 'front"end', dest_port: 443, policies: { enforced: [], pending: [{ name: 'p', rule_index: -1, trigger: { kind: 'StagedNetworkPolicy' } }] } },
+    { action: 'Allow', source_name: 'backend', dest_port: 53, policies: { enforced: [{ name: 'q', rule_index: 0, trigger: null }], pending: [] } },
+  ];
+  const run = (filter: unknown) => engine.run(`.items[] | ${compileFlowFilter(validateFlowFilter(filter))} | .source_name`, { items: flows });
+
+  it('escapes values so they cannot change the query', () => {
+    expect(compileFlowFilter({ field: 'source_name', op: 'eq', value: 'a") or true or ("' }))
+      .toBe('select((.source_name == "a\\") or true or (\\""))');
+    expect(run({ field: 'source_name', op: 'contains', value: 'front"' })).toEqual(['front"end']);
+  });
+
+  it('matches flows by field, list and policy conditions', () => {
+    expect(run({ field: 'dest_port', op: 'gte', value: 100 })).toEqual(['front"end']);
+    expect(run({ field: 'dest_port', op: 'in', value: [53] })).toEqual(['backend']);
+    expect(run({ anyPolicy: 'pending', where: { field: 'trigger.kind', op: 'eq', value: 'StagedNetworkPolicy' } })).toEqual(['front"end']);
+    expect(run({ not: { field: 'action', op: 'eq', value: 'Deny' } })).toEqual(['backend']);
+  });
+
+  it('compiles negative values for the built-in engine', () => {
+    expect(run({ anyPolicy: 'pending', where: { field: 'rule_index', op: 'eq', value: -1 } })).toEqual(['front"end']);
+    expect(run({ anyPolicy: 'enforced', where: { field: 'rule_index', op: 'gt', value: -1 } })).toEqual(['backend']);
+    expect(run({ field: 'dest_port', op: 'in', value: [-1, 53] })).toEqual(['backend']);
+  });
+
+  it('treats empty combinators as match-all and match-none', () => {
+    expect(run({ and: [] })).toHaveLength(2);
+    expect(run({ or: [] })).toEqual([]);
+    expect(run({ field: 'action', op: 'in', value: [] })).toEqual([]);
+  });
+});
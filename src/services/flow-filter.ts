@@ -0,0 +1,239 @@
+// Structured flow filters. Callers describe what to match as data instead of
+// concatenating jq strings, and every user-supplied value is JSON-encoded when
+// the filter is compiled, so names containing quotes cannot change the query.
+
+export type FlowFilterScalar = string | number | boolean | null;
+
+export type FlowFilterOperator =
+  | 'eq'
+  | 'ne'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'contains'
+  | 'startsWith'
+  | 'endsWith'
+  | 'in'
+  | 'exists';
+
+export interface FlowFieldCondition {
+  field: string;
+  op: FlowFilterOperator;
+  value?: FlowFilterScalar | FlowFilterScalar[];
+}
+
+export interface FlowAndCondition {
+  and: FlowFilter[];
+}
+
+export interface FlowOrCondition {
+  or: FlowFilter[];
+}
+
+export interface FlowNotCondition {
+  not: FlowFilter;
+}
+
+/**
+ * Matches when at least one element of a policy list satisfies `where`.
+ * Fields inside `where` are relative to the policy (e.g. "action", "trigger.kind").
+ */
+export interface FlowAnyPolicyCondition {
+  anyPolicy: 'enforced' | 'pending';
+  where: FlowFilter;
+}
+
+export type FlowFilter =
+  | FlowFieldCondition
+  | FlowAndCondition
+  | FlowOrCondition
+  | FlowNotCondition
+  | FlowAnyPolicyCondition;
+
+export const FLOW_FILTER_FIELDS = [
+  'start_time',
+  'end_time',
+  'action',
+  'source_name',
+  'source_namespace',
+  'source_labels',
+  'dest_name',
+  'dest_namespace',
+  'dest_labels',
+  'protocol',
+  'dest_port',
+  'reporter',
+  'packets_in',
+  'packets_out',
+  'bytes_in',
+  'bytes_out',
+];
+
+export const POLICY_FILTER_FIELDS = [
+  'kind',
+  'name',
+  'namespace',
+  'tier',
+  'action',
+  'policy_index',
+  'rule_index',
+  'trigger.kind',
+  'trigger.name',
+  'trigger.namespace',
+  'trigger.tier',
+  'trigger.action',
+];
+
+const OPERATORS: FlowFilterOperator[] = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'contains', 'startsWith', 'endsWith', 'in', 'exists'];
+const STRING_OPERATORS: FlowFilterOperator[] = ['contains', 'startsWith', 'endsWith'];
+const ORDERING_OPERATORS: Record<string, string> = { eq: '==', ne: '!=', gt: '>', gte: '>=', lt: '<', lte: '<=' };
+
+/**
+ * Check that an untrusted value (e.g. MCP tool arguments or CLI JSON) is a well-formed
+ * FlowFilter. Throws an Error describing the first problem found and where it is.
+ */
+export function validateFlowFilter(input: unknown, path = 'filter', fields: string[] = FLOW_FILTER_FIELDS): FlowFilter {
+  if (input === null || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error(`${path} must be an object`);
+  }
+
+  const node = input as Record<string, unknown>;
+  const keys = Object.keys(node);
+
+  if ('and' in node || 'or' in node) {
+    const combinator = 'and' in node ? 'and' : 'or';
+    if (keys.length !== 1) {
+      throw new Error(`${path} must only contain "${combinator}"`);
+    }
+    const children = node[combinator];
+    if (!Array.isArray(children)) {
+      throw new Error(`${path}.${combinator} must be an array of filters`);
+    }
+    const validated = children.map((child, i) => validateFlowFilter(child, `${path}.${combinator}[${i}]`, fields));
+    return combinator === 'and' ? { and: validated } : { or: validated };
+  }
+
+  if ('not' in node) {
+    if (keys.length !== 1) {
+      throw new Error(`${path} must only contain "not"`);
+    }
+    return { not: validateFlowFilter(node.not, `${path}.not`, fields) };
+  }
+
+  if ('anyPolicy' in node) {
+    if (fields !== FLOW_FILTER_FIELDS) {
+      throw new Error(`${path}.anyPolicy cannot be nested inside another anyPolicy`);
+    }
+    if (node.anyPolicy !== 'enforced' && node.anyPolicy !== 'pending') {
+      throw new Error(`${path}.anyPolicy must be "enforced" or "pending"`);
+    }
+    if (keys.some(key => key !== 'anyPolicy' && key !== 'where')) {
+      throw new Error(`${path} must only contain "anyPolicy" and "where"`);
+    }
+    return {
+      anyPolicy: node.anyPolicy,
+      where: validateFlowFilter(node.where, `${path}.where`, POLICY_FILTER_FIELDS)
+    };
+  }
+
+  if ('field' in node) {
+    const unknownKey = keys.find(key => key !== 'field' && key !== 'op' && key !== 'value');
+    if (unknownKey) {
+      throw new Error(`${path} has unknown property "${unknownKey}"`);
+    }
+    if (typeof node.field !== 'string' || !fields.includes(node.field)) {
+      throw new Error(`${path}.field must be one of: ${fields.join(', ')}`);
+    }
+    if (typeof node.op !== 'string' || !OPERATORS.includes(node.op as FlowFilterOperator)) {
+      throw new Error(`${path}.op must be one of: ${OPERATORS.join(', ')}`);
+    }
+
+    const op = node.op as FlowFilterOperator;
+    const value = node.value;
+
+    if (op === 'exists') {
+      if (value !== undefined) {
+        throw new Error(`${path}.value is not used with "exists"`);
+      }
+    } else if (op === 'in') {
+      if (!Array.isArray(value) || !value.every(isScalar)) {
+        throw new Error(`${path}.value must be an array of strings, numbers, booleans or null for "in"`);
+      }
+    } else if (STRING_OPERATORS.includes(op)) {
+      if (typeof value !== 'string') {
+        throw new Error(`${path}.value must be a string for "${op}"`);
+      }
+    } else if (op === 'eq' || op === 'ne') {
+      if (!isScalar(value)) {
+        throw new Error(`${path}.value must be a string, number, boolean or null for "${op}"`);
+      }
+    } else if (typeof value !== 'string' && !(typeof value === 'number' && Number.isFinite(value))) {
+      throw new Error(`${path}.value must be a string or number for "${op}"`);
+    }
+
+    return { field: node.field, op, value: value as FlowFieldCondition['value'] };
+  }
+
+  throw new Error(`${path} must contain one of "field", "and", "or", "not" or "anyPolicy"`);
+}
+
+/**
+ * Compile a validated FlowFilter into a jq `select(...)` expression for LogFilterService.
+ */
+export function compileFlowFilter(filter: FlowFilter): string {
+  return `select(${compileCondition(filter)})`;
+}
+
+function compileCondition(filter: FlowFilter): string {
+  if ('and' in filter) {
+    return filter.and.length === 0 ? 'true' : `(${filter.and.map(compileCondition).join(' and ')})`;
+  }
+
+  if ('or' in filter) {
+    return filter.or.length === 0 ? 'false' : `(${filter.or.map(compileCondition).join(' or ')})`;
+  }
+
+  if ('not' in filter) {
+    return `(${compileCondition(filter.not)} | not)`;
+  }
+
+  if ('anyPolicy' in filter) {
+    const list = `.policies.${filter.anyPolicy}`;
+    return `(${list} != null and any(${list}[]; ${compileCondition(filter.where)}))`;
+  }
+
+  const path = `.${filter.field}`;
+
+  switch (filter.op) {
+    case 'exists':
+      return `(${path} != null)`;
+
+    case 'in': {
+      const values = filter.value as FlowFilterScalar[];
+      if (values.length === 0) {
+        return 'false';
+      }
+      return `(${values.map(value => `${path} == ${JSON.stringify(value)}`).join(' or ')})`;
+    }
+
+    case 'contains':
+      return `((${path} // "") | tostring | contains(${JSON.stringify(filter.value)}))`;
+
+    case 'startsWith':
+      return `((${path} // "") | tostring | startswith(${JSON.stringify(filter.value)}))`;
+
+    case 'endsWith':
+      return `((${path} // "") | tostring | endswith(${JSON.stringify(filter.value)}))`;
+
+    default:
+      return `(${path} ${ORDERING_OPERATORS[filter.op]} ${JSON.stringify(filter.value)})`;
+  }
+}
+
+function isScalar(value: unknown): value is FlowFilterScalar {
+  if (typeof value === 'number') {
+    return Number.isFinite(value);
+  }
+  return value === null || typeof value === 'string' || typeof value === 'boolean';
+}
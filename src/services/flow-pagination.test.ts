@@ -0,0 +1,51 @@
+import { FlowLog } from './calico-whisker.js';
+import { paginateFlows } from './flow-pagination.js';
+import { makeFlow } from './test-fixtures.js';
+
+function flows(count: number, from = 0): FlowLog[] {
+  return Array.from({ length: count }, (_, index) => makeFlow({
+    start_time: `2026-10-18T10:${String(from + index).padStart(2, '0')}:00Z`,
+    end_time: `2026-10-18T10:${String(from + index).padStart(2, '0')}:30Z`,
+    source_name: `client-${from + index}`,
+  }));
+}
+
+describe('paginateFlows', () => {
+  it('returns pages linked by cursors until the results are exhausted', () => {
+    const logs = flows(5);
+    const first = paginateFlows(logs, { limit: 2 });
+    expect(first).toMatchObject({ total: 5, returned: 2, offset: 0, truncated: true });
+
+    const second = paginateFlows(logs, { limit: 2, cursor: first.nextCursor! });
+    expect(second.flows.map(log => log.source_name)).toEqual(['client-2', 'client-3']);
+
+    const last = paginateFlows(logs, { limit: 2, cursor: second.nextCursor! });
+    expect(last).toMatchObject({ returned: 1, offset: 4, truncated: false, nextCursor: null });
+  });
+
+  it('resumes after the last flow returned when flows are added in front', () => {
+    const logs = flows(4);
+    const first = paginateFlows(logs, { limit: 2 });
+    const next = paginateFlows([...flows(3, 10), ...logs], { limit: 2, cursor: first.nextCursor! });
+    expect(next.flows.map(log => log.source_name)).toEqual(['client-2', 'client-3']);
+  });
+
+  it('keeps the cursor valid when the last flow returned has new counters', () => {
+    const logs = flows(4);
+    const first = paginateFlows(logs, { limit: 2 });
+    const updated = logs.map(log => ({ ...log, bytes_in: log.bytes_in + 500 }));
+    expect(paginateFlows([...flows(1, 10), ...updated], { limit: 2, cursor: first.nextCursor! }).offset).toBe(3);
+  });
+
+  it('projects the requested fields', () => {
+    expect(paginateFlows(flows(1), { fields: ['action', 'dest_port'] }).flows).toEqual([{ action: 'Allow', dest_port: 8080 }]);
+  });
+
+  it('rejects bad limits and cursors', () => {
+    expect(() => paginateFlows(flows(1), { limit: 0 })).toThrow('limit must be an integer between 1 and 1000');
+    expect(() => paginateFlows(flows(1), { cursor: 'not-a-cursor' })).toThrow('cursor is malformed');
+
+    const cursor = paginateFlows(flows(3), { limit: 1 }).nextCursor!;
+    expect(() => paginateFlows(flows(3, 20), { cursor })).toThrow('cursor is no longer valid');
+  });
+});
@@ -0,0 +1,100 @@
+import { FlowLog } from './calico-whisker.js';
+import { FlowLogStore } from './flow-store.js';
+
+export const DEFAULT_PAGE_LIMIT = 100;
+export const MAX_PAGE_LIMIT = 1000;
+
+export const FLOW_LOG_FIELDS = [
+  'start_time', 'end_time', 'action',
+  'source_name', 'source_namespace', 'source_labels',
+  'dest_name', 'dest_namespace', 'dest_labels',
+  'protocol', 'dest_port', 'reporter', 'policies',
+  'packets_in', 'packets_out', 'bytes_in', 'bytes_out',
+] as const satisfies readonly (keyof FlowLog)[];
+
+export type FlowLogField = typeof FLOW_LOG_FIELDS[number];
+
+export interface FlowPageOptions {
+  limit?: number;
+  // Opaque cursor from a previous page's nextCursor
+  cursor?: string;
+  // Properties to keep in each flow; all when omitted
+  fields?: FlowLogField[];
+}
+
+export interface FlowPage {
+  total: number;
+  returned: number;
+  offset: number;
+  truncated: boolean;
+  nextCursor: string | null;
+  flows: Partial<FlowLog>[];
+}
+
+interface CursorState {
+  // Index of the first flow of the next page, and the key of the flow just before it
+  offset: number;
+  after: string;
+}
+
+/**
+ * Cut one page out of a result set. The cursor remembers the last flow returned, so the next
+ * page resumes after it even if newer flows were added in front of it meanwhile.
+ */
+export function paginateFlows(logs: FlowLog[], options: FlowPageOptions = {}): FlowPage {
+  const limit = options.limit ?? DEFAULT_PAGE_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_LIMIT) {
+    throw new Error(`limit must be an integer between 1 and ${MAX_PAGE_LIMIT}`);
+  }
+
+  const offset = options.cursor ? resumeOffset(logs, decodeCursor(options.cursor)) : 0;
+  const page = logs.slice(offset, offset + limit);
+  const end = offset + page.length;
+  const nextCursor = end < logs.length && page.length > 0
+    ? encodeCursor({ offset: end, after: FlowLogStore.flowKey(page[page.length - 1]) })
+    : null;
+
+  return {
+    total: logs.length,
+    returned: page.length,
+    offset,
+    truncated: nextCursor !== null,
+    nextCursor,
+    flows: options.fields && options.fields.length > 0 ? page.map(log => projectFlow(log, options.fields!)) : page,
+  };
+}
+
+export function projectFlow(log: FlowLog, fields: readonly FlowLogField[]): Partial<FlowLog> {
+  const projected: Partial<Record<FlowLogField, unknown>> = {};
+  fields.forEach(field => {
+    projected[field] = log[field];
+  });
+  return projected as Partial<FlowLog>;
+}
+
+function resumeOffset(logs: FlowLog[], cursor: CursorState): number {
+  if (cursor.offset > 0 && cursor.offset <= logs.length && FlowLogStore.flowKey(logs[cursor.offset - 1]) === cursor.after) {
+    return cursor.offset;
+  }
+  const index = logs.findIndex(log => FlowLogStore.flowKey(log) === cursor.after);
+  if (index === -1) {
+    throw new Error('cursor is no longer valid: the flow it points to has aged out of the results. Repeat the query without a cursor, or use startTime/endTime for stable pages');
+  }
+  return index + 1;
+}
+
+function encodeCursor(state: CursorState): string {
+  return Buffer.from(JSON.stringify(state)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): CursorState {
+  try {
+    const state = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Number.isInteger(state.offset) && state.offset >= 0 && typeof state.after === 'string') {
+      return state as CursorState;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error('cursor is malformed; pass the nextCursor value of a previous response unchanged');
+}
@@ -0,0 +1,64 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FLOW_SNAPSHOT_VERSION, FlowSnapshot, readFlowSnapshot, resolveSnapshotPath, writeFlowSnapshot } from './flow-snapshot.js';
+
+describe('resolveSnapshotPath', () => {
+  const env = { WHISKER_SNAPSHOT_DIR: '/var/snapshots' };
+
+  it('places paths under WHISKER_SNAPSHOT_DIR', () => {
+    expect(resolveSnapshotPath('incident.json', env)).toBe('/var/snapshots/incident.json');
+    expect(resolveSnapshotPath('2026/oct/incident.json', env)).toBe('/var/snapshots/2026/oct/incident.json');
+  });
+
+  it('rejects absolute paths and paths leaving the directory', () => {
+    expect(() => resolveSnapshotPath('/etc/passwd', env)).toThrow('must be relative to the snapshot directory');
+    expect(() => resolveSnapshotPath('../outside.json', env)).toThrow('outside the snapshot directory');
+    expect(() => resolveSnapshotPath('a/../../outside.json', env)).toThrow('outside the snapshot directory');
+  });
+});
+
+describe('writeFlowSnapshot / readFlowSnapshot', () => {
+  let directory: string;
+  const snapshot: FlowSnapshot = {
+    version: FLOW_SNAPSHOT_VERSION,
+    createdAt: '2026-10-18T10:00:00Z',
+    source: null,
+    query: { namespace: 'shop' },
+    response: { items: [] },
+  };
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'flow-snapshot-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('round-trips a snapshot', () => {
+    const path = join(directory, 'nested', 'snapshot.json');
+    writeFlowSnapshot(path, snapshot);
+    expect(readFlowSnapshot(path)).toEqual(snapshot);
+  });
+
+  it('only replaces an existing file when asked to', () => {
+    const path = join(directory, 'snapshot.json');
+    writeFileSync(path, 'keep me');
+    expect(() => writeFlowSnapshot(path, snapshot)).toThrow('already exists');
+    expect(readFileSync(path, 'utf8')).toBe('keep me');
+
+    writeFlowSnapshot(path, snapshot, true);
+    expect(readFlowSnapshot(path).createdAt).toBe(snapshot.createdAt);
+  });
+
+  it('reads bare Whisker responses and rejects other files', () => {
+    const bare = join(directory, 'bare.json');
+    writeFileSync(bare, JSON.stringify({ items: [] }));
+    expect(readFlowSnapshot(bare)).toMatchObject({ source: null, response: { items: [] } });
+
+    const other = join(directory, 'other.json');
+    writeFileSync(other, JSON.stringify({ hello: 'world' }));
+    expect(() => readFlowSnapshot(other)).toThrow('is not a flow snapshot');
+  });
+});
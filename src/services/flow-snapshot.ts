@@ -0,0 +1,137 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, isAbsolute, join, relative, resolve, sep } from 'path';
+import { homedir } from 'os';
+import { FlowLog, FlowLogsResponse } from './calico-whisker.js';
+import { ALL_FLOW_QUERY_CRITERIA, FlowQuery, applyFlowQuery } from './whisker-query.js';
+
+export const FLOW_SNAPSHOT_VERSION = 1;
+
+/**
+ * Where a snapshot's flows came from.
+ */
+export interface FlowSnapshotSource {
+  context: string | null;
+  kubeconfigPath: string | null;
+  whisker: {
+    namespace: string;
+    serviceName: string;
+    url: string;
+  };
+}
+
+/**
+ * Whisker's flow response saved to disk, so flows can be analysed later without a cluster.
+ */
+export interface FlowSnapshot {
+  version: number;
+  createdAt: string;
+  // Null for files holding a bare Whisker response (e.g. saved with curl) or imported flows
+  source: FlowSnapshotSource | null;
+  // Set for flows converted from exported flow log files rather than fetched from Whisker
+  importedFrom?: { format: 'felix'; files: string[] };
+  // The query the flows were fetched with
+  query: FlowQuery;
+  response: FlowLogsResponse;
+}
+
+export interface FlowSnapshotSummary {
+  path: string;
+  createdAt: string;
+  context: string | null;
+  flows: number;
+  // Earliest start_time and latest end_time of the flows
+  firstFlowAt: string | null;
+  lastFlowAt: string | null;
+}
+
+/**
+ * Resolve a snapshot path given to the MCP server. Paths are relative to WHISKER_SNAPSHOT_DIR
+ * (default ~/.calico-whisker-mcp/snapshots) and must stay inside it: MCP clients pass whatever
+ * the model asks for, so they cannot read or write files elsewhere on the machine.
+ */
+export function resolveSnapshotPath(path: string, env: NodeJS.ProcessEnv = process.env): string {
+  const baseDir = resolve(env.WHISKER_SNAPSHOT_DIR || join(homedir(), '.calico-whisker-mcp', 'snapshots'));
+  return resolveInsideDirectory(baseDir, path, 'snapshot', false);
+}
+
+/**
+ * Resolve a path relative to baseDir, rejecting absolute paths and paths that leave it. The
+ * directory itself is only accepted when allowBase is set.
+ */
+export function resolveInsideDirectory(baseDir: string, path: string, kind: string, allowBase: boolean): string {
+  const label = `${kind.charAt(0).toUpperCase()}${kind.slice(1)} path`;
+  if (isAbsolute(path)) {
+    throw new Error(`${label} "${path}" must be relative to the ${kind} directory ${baseDir}`);
+  }
+  const resolved = resolve(baseDir, path);
+  const inside = relative(baseDir, resolved);
+  if ((!inside && !allowBase) || inside === '..' || inside.startsWith(`..${sep}`) || isAbsolute(inside)) {
+    throw new Error(`${label} "${path}" is outside the ${kind} directory ${baseDir}`);
+  }
+  return resolved;
+}
+
+/**
+ * Write a snapshot, refusing to replace an existing file unless overwrite is set.
+ */
+export function writeFlowSnapshot(path: string, snapshot: FlowSnapshot, overwrite = false): void {
+  mkdirSync(dirname(path), { recursive: true });
+  try {
+    writeFileSync(path, JSON.stringify(snapshot, null, 2), { flag: overwrite ? 'w' : 'wx' });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      throw new Error(`${path} already exists; set overwrite to replace it`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read a snapshot written by writeFlowSnapshot, or a bare Whisker flow response.
+ */
+export function readFlowSnapshot(path: string): FlowSnapshot {
+  let data: any;
+  try {
+    data = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(`Cannot read flow snapshot ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (data && Array.isArray(data.items)) {
+    return { version: FLOW_SNAPSHOT_VERSION, createdAt: '', source: null, query: {}, response: { items: data.items } };
+  }
+  if (!data || !Array.isArray(data.response?.items)) {
+    throw new Error(`${path} is not a flow snapshot (expected response.items or items to be an array of flow logs)`);
+  }
+  if (data.version !== FLOW_SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported flow snapshot version ${data.version} in ${path} (expected ${FLOW_SNAPSHOT_VERSION})`);
+  }
+  return {
+    version: data.version,
+    createdAt: data.createdAt || '',
+    source: data.source || null,
+    ...(data.importedFrom ? { importedFrom: data.importedFrom } : {}),
+    query: data.query || {},
+    response: { items: data.response.items },
+  };
+}
+
+/**
+ * The snapshot's flows that match a query, as getFlowLogs would return them from Whisker.
+ */
+export function snapshotFlowLogs(snapshot: FlowSnapshot, query: FlowQuery = {}): FlowLog[] {
+  return applyFlowQuery(snapshot.response.items, query, ALL_FLOW_QUERY_CRITERIA);
+}
+
+export function summarizeSnapshot(path: string, snapshot: FlowSnapshot): FlowSnapshotSummary {
+  const starts = snapshot.response.items.map(log => log.start_time).filter(Boolean).sort();
+  const ends = snapshot.response.items.map(log => log.end_time).filter(Boolean).sort();
+  return {
+    path,
+    createdAt: snapshot.createdAt,
+    context: snapshot.source?.context ?? null,
+    flows: snapshot.response.items.length,
+    firstFlowAt: starts[0] || null,
+    lastFlowAt: ends[ends.length - 1] || null,
+  };
+}
@@ -0,0 +1,51 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FlowLogStore } from './flow-store.js';
+import { makeFlow } from './test-fixtures.js';
+
+describe('FlowLogStore', () => {
+  let directory: string;
+  let store: FlowLogStore;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'flow-store-'));
+    store = new FlowLogStore(directory, 0);
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('keys flows by identity, not counters', () => {
+    expect(FlowLogStore.flowKey(makeFlow())).toBe(FlowLogStore.flowKey(makeFlow({ bytes_in: 5000, packets_in: 50 })));
+    expect(FlowLogStore.flowKey(makeFlow())).not.toBe(FlowLogStore.flowKey(makeFlow({ reporter: 'Dst' })));
+    expect(FlowLogStore.flowKey(makeFlow())).not.toBe(FlowLogStore.flowKey(makeFlow({ action: 'Deny' })));
+  });
+
+  it('skips unchanged records and stores updated counters once', () => {
+    expect(store.append([makeFlow(), makeFlow({ reporter: 'Dst' })])).toBe(2);
+    expect(store.append([makeFlow()])).toBe(0);
+    expect(store.append([makeFlow({ bytes_in: 5000 })])).toBe(1);
+
+    const stored = store.query();
+    expect(stored).toHaveLength(2);
+    expect(stored.find(log => log.reporter === 'Src')?.bytes_in).toBe(5000);
+    expect(store.getStats().records).toBe(2);
+  });
+
+  it('returns the latest version written by another store on the same directory', () => {
+    const other = new FlowLogStore(directory, 0);
+    store.append([makeFlow()]);
+    other.append([makeFlow({ packets_out: 99 })]);
+
+    expect(store.query().map(log => log.packets_out)).toEqual([99]);
+    expect(readFileSync(join(directory, 'flows-2026-10-18.ndjson'), 'utf8').trim().split('\n')).toHaveLength(2);
+  });
+
+  it('filters by time range', () => {
+    store.append([makeFlow(), makeFlow({ start_time: '2026-10-19T10:00:00Z', end_time: '2026-10-19T10:05:00Z' })]);
+    expect(store.query({ startTime: '2026-10-19T00:00:00Z' }).map(log => log.start_time)).toEqual(['2026-10-19T10:00:00Z']);
+    expect(store.query({ endTime: '2026-10-18T23:59:59Z' }).map(log => log.start_time)).toEqual(['2026-10-18T10:00:00Z']);
+  });
+});
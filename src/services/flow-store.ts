@@ -0,0 +1,255 @@
+import { createHash } from 'crypto';
+import { appendFileSync, existsSync, mkdirSync, readdirSync, readFileSync, statSync, unlinkSync } from 'fs';
+import { join } from 'path';
+import { homedir } from 'os';
+import { FlowLog } from './calico-whisker.js';
+
+export interface FlowTimeRange {
+  startTime?: string;
+  endTime?: string;
+}
+
+export interface FlowStoreStats {
+  directory: string;
+  files: number;
+  records: number;
+  sizeBytes: number;
+  oldestDay: string | null;
+  newestDay: string | null;
+}
+
+const DEFAULT_RETENTION_DAYS = 7;
+// Records whose start_time cannot be parsed are kept in their own partition
+const UNDATED_PARTITION = 'undated';
+const FILE_PATTERN = /^flows-(\d{4}-\d{2}-\d{2}|undated)\.ndjson$/;
+
+/**
+ * Append-only flow log history on local disk. Records are written as NDJSON, partitioned
+ * by the UTC day of start_time; the day partitions act as the time index, so a range query
+ * only reads the files that can contain matching records.
+ *
+ * Whisker keeps adding to a flow's counters until its interval closes, so a record is
+ * identified by flowKey rather than its content: a flow seen again with new counters is
+ * appended as a newer version, and reads return the latest version of each flow.
+ */
+export class FlowLogStore {
+  readonly directory: string;
+  private readonly retentionDays: number;
+  // Counters of the latest stored version per flow key and day partition, loaded the
+  // first time the partition is written to
+  private readonly keysByDay = new Map<string, Map<string, string>>();
+
+  constructor(directory: string, retentionDays = DEFAULT_RETENTION_DAYS) {
+    this.directory = directory;
+    this.retentionDays = retentionDays;
+  }
+
+  /**
+   * Store for one cluster session under WHISKER_HISTORY_DIR (default ~/.calico-whisker-mcp/history).
+   */
+  static forCluster(clusterName: string, env: NodeJS.ProcessEnv = process.env): FlowLogStore {
+    const baseDir = env.WHISKER_HISTORY_DIR || join(homedir(), '.calico-whisker-mcp', 'history');
+    const retention = env.WHISKER_HISTORY_RETENTION_DAYS !== undefined
+      ? Number(env.WHISKER_HISTORY_RETENTION_DAYS)
+      : DEFAULT_RETENTION_DAYS;
+    if (!Number.isFinite(retention) || retention < 0) {
+      throw new Error(`Invalid WHISKER_HISTORY_RETENTION_DAYS: ${env.WHISKER_HISTORY_RETENTION_DAYS}`);
+    }
+    // Context names may contain characters that are not valid in file names (e.g. EKS ARNs)
+    return new FlowLogStore(join(baseDir, clusterName.replace(/[^A-Za-z0-9._-]/g, '_')), retention);
+  }
+
+  /**
+   * Identity of a flow record: its interval, endpoints, port, reporter and action. The
+   * packet and byte counters are not part of it, since they grow while the interval is open.
+   */
+  static flowKey(log: FlowLog): string {
+    const identity = [
+      log.start_time,
+      log.end_time,
+      log.source_namespace,
+      log.source_name,
+      log.dest_namespace,
+      log.dest_name,
+      log.protocol,
+      log.dest_port,
+      log.reporter,
+      log.action,
+    ];
+    return createHash('sha1').update(JSON.stringify(identity)).digest('hex');
+  }
+
+  static flowCounters(log: FlowLog): string {
+    return [log.packets_in, log.packets_out, log.bytes_in, log.bytes_out].join('/');
+  }
+
+  /**
+   * Persist flows that are not stored yet and newer counters for stored ones. Returns how
+   * many records were written.
+   */
+  append(logs: FlowLog[]): number {
+    const linesByDay = new Map<string, string[]>();
+
+    logs.forEach(log => {
+      const day = dayOf(log.start_time);
+      const keys = this.loadKeys(day);
+      const key = FlowLogStore.flowKey(log);
+      const counters = FlowLogStore.flowCounters(log);
+      if (keys.get(key) === counters) {
+        return;
+      }
+      keys.set(key, counters);
+      const lines = linesByDay.get(day) || [];
+      lines.push(JSON.stringify(log));
+      linesByDay.set(day, lines);
+    });
+
+    if (linesByDay.size === 0) {
+      return 0;
+    }
+
+    mkdirSync(this.directory, { recursive: true });
+    let added = 0;
+    linesByDay.forEach((lines, day) => {
+      appendFileSync(this.partitionPath(day), lines.join('\n') + '\n');
+      added += lines.length;
+    });
+    return added;
+  }
+
+  /**
+   * Read the latest version of the stored flows within the time range, oldest first.
+   */
+  query(range: FlowTimeRange = {}): FlowLog[] {
+    const firstDay = range.startTime ? dayOf(range.startTime) : null;
+    const lastDay = range.endTime ? dayOf(range.endTime) : null;
+
+    const results: FlowLog[] = [];
+    this.listPartitions().forEach(day => {
+      // An undated bound (unparseable time) cannot narrow the partitions
+      if (day !== UNDATED_PARTITION) {
+        if (firstDay && firstDay !== UNDATED_PARTITION && day < firstDay) return;
+        if (lastDay && lastDay !== UNDATED_PARTITION && day > lastDay) return;
+      }
+
+      // A flow always lands in the same partition, so versions only need merging per day
+      this.latestVersions(day).forEach(log => {
+        if (inTimeRange(log, range)) {
+          results.push(log);
+        }
+      });
+    });
+
+    return results.sort((a, b) => (a.start_time < b.start_time ? -1 : a.start_time > b.start_time ? 1 : 0));
+  }
+
+  /**
+   * Delete day partitions older than the retention period. Returns the number of files removed.
+   */
+  prune(now: Date = new Date()): number {
+    if (this.retentionDays === 0) {
+      return 0;
+    }
+
+    const cutoff = new Date(now.getTime() - this.retentionDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    let removed = 0;
+    this.listPartitions().forEach(day => {
+      if (day !== UNDATED_PARTITION && day < cutoff) {
+        try {
+          unlinkSync(this.partitionPath(day));
+          this.keysByDay.delete(day);
+          removed++;
+        } catch (error) {
+          console.error(`Warning: Could not remove old flow history ${day}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    });
+    return removed;
+  }
+
+  getStats(): FlowStoreStats {
+    const days = this.listPartitions();
+    let records = 0;
+    let sizeBytes = 0;
+    days.forEach(day => {
+      sizeBytes += statSync(this.partitionPath(day)).size;
+      records += this.latestVersions(day).length;
+    });
+
+    const dated = days.filter(day => day !== UNDATED_PARTITION);
+    return {
+      directory: this.directory,
+      files: days.length,
+      records,
+      sizeBytes,
+      oldestDay: dated.length > 0 ? dated[0] : null,
+      newestDay: dated.length > 0 ? dated[dated.length - 1] : null,
+    };
+  }
+
+  private listPartitions(): string[] {
+    if (!existsSync(this.directory)) {
+      return [];
+    }
+    return readdirSync(this.directory)
+      .map(file => FILE_PATTERN.exec(file))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map(match => match[1])
+      .sort();
+  }
+
+  private readPartition(day: string): FlowLog[] {
+    const path = this.partitionPath(day);
+    if (!existsSync(path)) {
+      return [];
+    }
+
+    const logs: FlowLog[] = [];
+    readFileSync(path, 'utf8').split('\n').forEach(line => {
+      if (!line.trim()) {
+        return;
+      }
+      try {
+        logs.push(JSON.parse(line) as FlowLog);
+      } catch {
+        // A partial line from an interrupted write; the record is fetched again on the next poll
+      }
+    });
+    return logs;
+  }
+
+  // Later lines supersede earlier ones; another process (e.g. the CLI collector) may also
+  // have written the same version
+  private latestVersions(day: string): FlowLog[] {
+    const latest = new Map<string, FlowLog>();
+    this.readPartition(day).forEach(log => latest.set(FlowLogStore.flowKey(log), log));
+    return Array.from(latest.values());
+  }
+
+  private loadKeys(day: string): Map<string, string> {
+    let keys = this.keysByDay.get(day);
+    if (!keys) {
+      keys = new Map(this.latestVersions(day).map(log => [FlowLogStore.flowKey(log), FlowLogStore.flowCounters(log)]));
+      this.keysByDay.set(day, keys);
+    }
+    return keys;
+  }
+
+  private partitionPath(day: string): string {
+    return join(this.directory, `flows-${day}.ndjson`);
+  }
+}
+
+/**
+ * Time bounds as applied by LogFilterService.filterLogs: start_time >= startTime and end_time <= endTime.
+ */
+export function inTimeRange(log: FlowLog, range: FlowTimeRange): boolean {
+  if (range.startTime && !(log.start_time >= range.startTime)) return false;
+  if (range.endTime && !(log.end_time <= range.endTime)) return false;
+  return true;
+}
+
+function dayOf(timestamp: string): string {
+  const time = new Date(timestamp);
+  return Number.isNaN(time.getTime()) ? UNDATED_PARTITION : time.toISOString().slice(0, 10);
+}
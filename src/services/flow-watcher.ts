@@ -0,0 +1,124 @@
+import { CalicoWhiskerService, FlowLog } from './calico-whisker.js';
+import { FlowLogStore } from './flow-store.js';
+import { LogFilterService } from './log-filter.js';
+import { FlowQuery } from './whisker-query.js';
+
+export interface FlowWatchOptions {
+  // Criteria sent with each fetch, e.g. namespace or action
+  query?: FlowQuery;
+  // JQ filter applied to new flows before they are delivered
+  filter?: string;
+  intervalSeconds?: number;
+  // Deliver the flows Whisker already holds on the first poll, like `kubectl logs -f`
+  includeExisting?: boolean;
+}
+
+export type FlowWatchListener = (flows: FlowLog[]) => void | Promise<void>;
+
+const DEFAULT_WATCH_INTERVAL_SECONDS = 5;
+const MIN_WATCH_INTERVAL_SECONDS = 1;
+
+/**
+ * Polls Whisker and delivers flows that were not returned by the previous poll and match
+ * the filter. Whisker has no streaming endpoint, so new flows are detected by diffing polls.
+ *
+ * Flows are compared by FlowLogStore.flowKey, which leaves out the counters: a flow whose
+ * packets and bytes grow while its interval is open is delivered once, when it first
+ * appears, and its counter updates are not new events.
+ */
+export class FlowWatcher {
+  private readonly intervalSeconds: number;
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  // Identity keys of the flows returned by the last poll; records that age out of Whisker do not come back
+  private seen: Set<string> | null = null;
+  private delivered = 0;
+  private lastPollAt: string | null = null;
+  private lastError: string | null = null;
+
+  constructor(
+    private readonly calicoService: CalicoWhiskerService,
+    private readonly logFilterService: LogFilterService,
+    private readonly options: FlowWatchOptions,
+    private readonly listener: FlowWatchListener,
+  ) {
+    const interval = options.intervalSeconds ?? DEFAULT_WATCH_INTERVAL_SECONDS;
+    if (!Number.isFinite(interval) || interval < MIN_WATCH_INTERVAL_SECONDS) {
+      throw new Error(`Invalid watch interval: ${interval} (expected at least ${MIN_WATCH_INTERVAL_SECONDS} second)`);
+    }
+    this.intervalSeconds = interval;
+  }
+
+  async start(): Promise<void> {
+    if (this.timer) {
+      return;
+    }
+    // Check the filter and establish the baseline up front, so problems fail the caller
+    if (this.options.filter) {
+      await this.logFilterService.filterLogs([], this.options.filter);
+    }
+    await this.poll(true);
+    this.timer = setInterval(() => {
+      void this.poll(false);
+    }, this.intervalSeconds * 1000);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  getStatus(): { running: boolean; intervalSeconds: number; filter: string | null; delivered: number; lastPollAt: string | null; lastError: string | null } {
+    return {
+      running: this.isRunning(),
+      intervalSeconds: this.intervalSeconds,
+      filter: this.options.filter || null,
+      delivered: this.delivered,
+      lastPollAt: this.lastPollAt,
+      lastError: this.lastError,
+    };
+  }
+
+  private async poll(initial: boolean): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+    try {
+      const logs = await this.calicoService.getFlowLogs(this.options.query);
+      const keys = new Set(logs.map(log => FlowLogStore.flowKey(log)));
+      const previous = this.seen;
+      this.seen = keys;
+
+      const fresh = previous
+        ? logs.filter(log => !previous.has(FlowLogStore.flowKey(log)))
+        : (initial && this.options.includeExisting ? logs : []);
+      this.lastError = null;
+
+      if (fresh.length === 0) {
+        return;
+      }
+
+      const matching = await this.logFilterService.filterLogs(fresh, this.options.filter);
+      if (matching.length > 0) {
+        this.delivered += matching.length;
+        await this.listener(matching);
+      }
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      if (initial) {
+        throw error;
+      }
+      console.error(`Flow watch poll failed: ${this.lastError}`);
+    } finally {
+      this.lastPollAt = new Date().toISOString();
+      this.polling = false;
+    }
+  }
+}
@@ -0,0 +1,141 @@
+// MCP prompt templates for common network-policy investigations. Each prompt spells out
+// which tools to call and with which arguments, so every client runs the same investigation.
+
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+export interface InvestigationPrompt {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+}
+
+export interface PromptMessage {
+  role: 'user' | 'assistant';
+  content: { type: 'text'; text: string };
+}
+
+const CLUSTER_ARGUMENT: PromptArgument = {
+  name: 'cluster',
+  description: 'Cluster session to investigate (defaults to the most recently connected cluster)',
+};
+
+export const INVESTIGATION_PROMPTS: InvestigationPrompt[] = [
+  {
+    name: 'troubleshoot_blocked_connection',
+    description: 'Find out why traffic from one workload to another is blocked and which policy change would allow it',
+    arguments: [
+      { name: 'source', description: 'Source workload name (or name prefix)', required: true },
+      { name: 'destination', description: 'Destination workload name (or name prefix)', required: true },
+      { name: 'namespace', description: 'Namespace of the destination workload' },
+      { name: 'port', description: 'Destination port' },
+      CLUSTER_ARGUMENT,
+    ],
+  },
+  {
+    name: 'audit_namespace',
+    description: 'Review the traffic and policy posture of a namespace: denied flows, staged policy impact and heavy talkers',
+    arguments: [
+      { name: 'namespace', description: 'Namespace to audit', required: true },
+      CLUSTER_ARGUMENT,
+    ],
+  },
+  {
+    name: 'draft_least_privilege_policy',
+    description: 'Draft least-privilege Calico policies for a namespace from its observed flows',
+    arguments: [
+      { name: 'namespace', description: 'Namespace to write policies for', required: true },
+      { name: 'selectorKey', description: 'Label key that identifies workloads (default: app)' },
+      CLUSTER_ARGUMENT,
+    ],
+  },
+];
+
+/**
+ * Render a prompt's messages. Throws if the prompt is unknown or a required argument is missing.
+ */
+export function buildPromptMessages(name: string, args: Record<string, string> = {}): { description: string; messages: PromptMessage[] } {
+  const prompt = INVESTIGATION_PROMPTS.find(p => p.name === name);
+  if (!prompt) {
+    throw new Error(`Unknown prompt: ${name}`);
+  }
+
+  const missing = prompt.arguments.filter(arg => arg.required && !args[arg.name]).map(arg => arg.name);
+  if (missing.length > 0) {
+    throw new Error(`Missing required argument${missing.length > 1 ? 's' : ''} for ${name}: ${missing.join(', ')}`);
+  }
+
+  // Tool arguments are rendered as JSON so names with quotes or spaces are passed through intact
+  const cluster = args.cluster ? { cluster: args.cluster } : {};
+  const call = (tool: string, toolArgs: Record<string, unknown>) => `\`${tool}\` with ${JSON.stringify({ ...cluster, ...toolArgs })}`;
+
+  let text: string;
+  switch (name) {
+    case 'troubleshoot_blocked_connection': {
+      const { source, destination, namespace, port } = args;
+      const conditions: unknown[] = [
+        { field: 'source_name', op: 'startsWith', value: source },
+        { field: 'dest_name', op: 'startsWith', value: destination },
+      ];
+      if (namespace) {
+        conditions.push({ field: 'dest_namespace', op: 'eq', value: namespace });
+      }
+      if (port) {
+        if (!/^\d+$/.test(port)) {
+          throw new Error(`Invalid port for ${name}: ${port}`);
+        }
+        conditions.push({ field: 'dest_port', op: 'eq', value: Number(port) });
+      }
+      text = [
+        `Traffic from "${source}" to "${destination}"${namespace ? ` in namespace "${namespace}"` : ''}${port ? ` on port ${port}` : ''} appears to be blocked. Investigate it as follows:`,
+        '',
+        `1. Call ${call('get_flow_logs', { where: { and: conditions } })} to see the flows between the two workloads, including both the source and destination reporter views.`,
+        `2. Call ${call('analyze_blocked_flows', namespace ? { namespace } : {})} to identify the policies that deny this traffic and read their YAML.`,
+        '3. If a policy needs a closer look, read the whisker://policies/{kind}/{namespace}/{name} resource for it.',
+        '',
+        'Report whether the traffic is denied at the source or the destination, the exact policy and rule responsible, and the smallest policy change that would allow this connection without opening anything else.',
+      ].join('\n');
+      break;
+    }
+
+    case 'audit_namespace': {
+      const { namespace } = args;
+      text = [
+        `Audit the network policy posture of namespace "${namespace}":`,
+        '',
+        `1. Call ${call('get_namespace_flow_summary', { namespace })} for an overview of who talks to whom.`,
+        `2. Call ${call('analyze_blocked_flows', { namespace })} to find denied traffic and the policies responsible.`,
+        `3. Call ${call('get_denied_staged_policies', { namespace })} to find traffic that staged policies would deny once enforced.`,
+        `4. Call ${call('get_flow_logs', { namespace, sortBy: 'bytes', pageSize: 20 })} to find the heaviest flows.`,
+        '',
+        'Summarize: which workloads the namespace accepts traffic from and sends traffic to, traffic that is denied today, traffic that staged policies would break, and any flows that look unexpected. End with prioritized recommendations.',
+      ].join('\n');
+      break;
+    }
+
+    case 'draft_least_privilege_policy': {
+      const { namespace } = args;
+      const selectorKey = args.selectorKey || 'app';
+      text = [
+        `Draft least-privilege Calico network policies for namespace "${namespace}":`,
+        '',
+        `1. Call ${call('get_namespace_flow_summary', { namespace })} to understand the traffic the namespace depends on.`,
+        `2. Call ${call('generate_network_policies', { namespace, selectorKey, format: 'yaml' })} to generate policies from the observed flows.`,
+        '',
+        `Review the generated policies: check that every workload labelled "${selectorKey}" is covered, flag rules that look broader than the observed traffic, and note flows that may only be missing because they did not happen in the observed window. Present the final YAML and recommend rolling it out as StagedNetworkPolicy first, then checking get_denied_staged_policies before enforcing it.`,
+      ].join('\n');
+      break;
+    }
+
+    default:
+      throw new Error(`Unknown prompt: ${name}`);
+  }
+
+  return {
+    description: prompt.description,
+    messages: [{ role: 'user', content: { type: 'text', text } }],
+  };
+}
@@ -0,0 +1,55 @@
+import { JqFilterEngine } from './jq-engine.js';
+
+describe('JqFilterEngine', () => {
+  const engine = new JqFilterEngine();
+  const flows = {
+    items: [
+      { action: 'Allow', source_namespace: 'shop', dest_port: 443, policies: { enforced: [{ name: 'allow-web' }] } },
+      { action: 'Deny', source_namespace: 'bank', dest_port: 5432, policies: { enforced: [] } },
+    ],
+  };
+
+  it('iterates and selects items', () => {
+    expect(engine.run('.items[] | select(.action == "Deny") | .source_namespace', flows)).toEqual(['bank']);
+  });
+
+  it('combines comparisons with and/or', () => {
+    expect(engine.run('.items[] | select(.dest_port >= 443 and .action != "Deny") | .dest_port', flows)).toEqual([443]);
+    expect(engine.run('[.items[] | select(.action == "Allow" or .dest_port < 100)] | length', flows)).toEqual([1]);
+  });
+
+  it('parses negative numbers and unary minus', () => {
+    expect(engine.run('.items[] | select(.dest_port > -1) | .dest_port', flows)).toEqual([443, 5432]);
+    expect(engine.run('-1.5e2', null)).toEqual([-150]);
+    expect(engine.run('-.items[0].dest_port', flows)).toEqual([-443]);
+    expect(engine.run('- -(2)', null)).toEqual([2]);
+    expect(() => engine.run('-.items[0].action', flows)).toThrow('Cannot negate string');
+  });
+
+  it('supports the builtins used by the flow filters', () => {
+    expect(engine.run('.items[] | select(.policies.enforced | any(.name | startswith("allow"))) | .action', flows)).toEqual(['Allow']);
+    expect(engine.run('.items[0].source_namespace | ascii_upcase', flows)).toEqual(['SHOP']);
+    expect(engine.run('.items[1].source_namespace | test("^b")', flows)).toEqual([true]);
+  });
+
+  it('returns null for missing fields and falls back with //', () => {
+    expect(engine.run('.items[0].missing', flows)).toEqual([null]);
+    expect(engine.run('.items[0].missing // "none"', flows)).toEqual(['none']);
+  });
+
+  it('does not read inherited properties', () => {
+    expect(engine.run('.constructor', {})).toEqual([null]);
+    expect(engine.run('.["__proto__"]', {})).toEqual([null]);
+    expect(engine.run('.toString // "absent"', { a: 1 })).toEqual(['absent']);
+  });
+
+  it('throws on type errors unless made optional', () => {
+    expect(() => engine.run('.items.name', flows)).toThrow('Cannot index array');
+    expect(engine.run('.items.name?', flows)).toEqual([]);
+  });
+
+  it('rejects syntax outside the supported subset', () => {
+    expect(() => engine.compile('.items | map(.action)')).toThrow();
+    expect(() => engine.compile('.items[')).toThrow();
+  });
+});
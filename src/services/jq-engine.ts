@@ -0,0 +1,680 @@
+// In-process evaluator for the subset of jq used by the flow log filters.
+//
+// Supported syntax: identity (.), field paths (.a.b, ."a", .["a"]), indexing (.[0]),
+// iteration (.[] and .a[]), optional suffix (?), pipes (|), comma (,), alternative (//),
+// comparisons (== != < <= > >=), and/or, unary minus, parentheses, array construction ([...]),
+// string/number/boolean/null literals and the builtins listed in BUILTINS below.
+//
+// Every expression evaluates to a list of outputs, mirroring jq's generator semantics.
+
+type JqNode =
+  | { type: 'identity' }
+  | { type: 'literal'; value: any }
+  | { type: 'field'; target: JqNode; name: string }
+  | { type: 'index'; target: JqNode; index: JqNode }
+  | { type: 'iterate'; target: JqNode }
+  | { type: 'try'; body: JqNode }
+  | { type: 'pipe'; left: JqNode; right: JqNode }
+  | { type: 'comma'; left: JqNode; right: JqNode }
+  | { type: 'alternative'; left: JqNode; right: JqNode }
+  | { type: 'and'; left: JqNode; right: JqNode }
+  | { type: 'or'; left: JqNode; right: JqNode }
+  | { type: 'compare'; op: string; left: JqNode; right: JqNode }
+  | { type: 'negate'; body: JqNode }
+  | { type: 'array'; body: JqNode | null }
+  | { type: 'call'; name: string; args: JqNode[] };
+
+interface Token {
+  kind: 'field' | 'dot' | 'ident' | 'string' | 'number' | 'punct';
+  value: string;
+  pos: number;
+}
+
+const PUNCTUATION = ['==', '!=', '<=', '>=', '//', '<', '>', '|', ',', ';', '(', ')', '[', ']', '?', '-'];
+const COMPARISON_OPERATORS = ['==', '!=', '<', '<=', '>', '>='];
+
+const BUILTINS: Record<string, number[]> = {
+  select: [1],
+  not: [0],
+  contains: [1],
+  inside: [1],
+  any: [0, 1, 2],
+  all: [0, 1, 2],
+  length: [0],
+  startswith: [1],
+  endswith: [1],
+  test: [1, 2],
+  ascii_downcase: [0],
+  ascii_upcase: [0],
+  tostring: [0],
+  tonumber: [0],
+  empty: [0],
+  true: [0],
+  false: [0],
+  null: [0],
+};
+
+export class JqFilterEngine {
+  private readonly cache = new Map<string, JqNode>();
+
+  /**
+   * Parse a filter expression, throwing on syntax the engine does not support.
+   */
+  compile(filter: string): void {
+    this.parse(filter);
+  }
+
+  run(filter: string, input: any): any[] {
+    return this.evaluate(this.parse(filter), input);
+  }
+
+  private parse(filter: string): JqNode {
+    const cached = this.cache.get(filter);
+    if (cached) {
+      return cached;
+    }
+
+    const parser = new JqParser(tokenize(filter), filter);
+    const ast = parser.parseProgram();
+    this.cache.set(filter, ast);
+    return ast;
+  }
+
+  private evaluate(node: JqNode, input: any): any[] {
+    switch (node.type) {
+      case 'identity':
+        return [input];
+
+      case 'literal':
+        return [node.value];
+
+      case 'field':
+        return this.evaluate(node.target, input).map(value => {
+          if (value === null || value === undefined) {
+            return null;
+          }
+          if (typeof value !== 'object' || Array.isArray(value)) {
+            throw new Error(`Cannot index ${typeName(value)} with "${node.name}"`);
+          }
+          return ownValue(value, node.name);
+        });
+
+      case 'index':
+        return this.evaluate(node.target, input).flatMap(value =>
+          this.evaluate(node.index, input).map(index => indexValue(value, index))
+        );
+
+      case 'iterate':
+        return this.evaluate(node.target, input).flatMap(value => {
+          if (Array.isArray(value)) {
+            return value;
+          }
+          if (value !== null && typeof value === 'object') {
+            return Object.values(value);
+          }
+          throw new Error(`Cannot iterate over ${typeName(value)}`);
+        });
+
+      case 'try':
+        try {
+          return this.evaluate(node.body, input);
+        } catch {
+          return [];
+        }
+
+      case 'pipe':
+        return this.evaluate(node.left, input).flatMap(value => this.evaluate(node.right, value));
+
+      case 'comma':
+        return [...this.evaluate(node.left, input), ...this.evaluate(node.right, input)];
+
+      case 'alternative': {
+        let leftValues: any[] = [];
+        try {
+          leftValues = this.evaluate(node.left, input).filter(isTruthy);
+        } catch {
+          leftValues = [];
+        }
+        return leftValues.length > 0 ? leftValues : this.evaluate(node.right, input);
+      }
+
+      case 'and':
+        // Short-circuit like jq so guards such as `.x != null and (.x[] ...)` work
+        return this.evaluate(node.left, input).flatMap(left =>
+          isTruthy(left) ? this.evaluate(node.right, input).map(isTruthy) : [false]
+        );
+
+      case 'or':
+        return this.evaluate(node.left, input).flatMap(left =>
+          isTruthy(left) ? [true] : this.evaluate(node.right, input).map(isTruthy)
+        );
+
+      case 'compare':
+        return this.evaluate(node.right, input).flatMap(right =>
+          this.evaluate(node.left, input).map(left => compareWith(node.op, left, right))
+        );
+
+      case 'negate':
+        return this.evaluate(node.body, input).map(value => {
+          if (typeof value !== 'number') {
+            throw new Error(`Cannot negate ${typeName(value)}`);
+          }
+          return -value;
+        });
+
+      case 'array':
+        return [node.body ? this.evaluate(node.body, input) : []];
+
+      case 'call':
+        return this.callBuiltin(node.name, node.args, input);
+    }
+  }
+
+  private callBuiltin(name: string, args: JqNode[], input: any): any[] {
+    switch (name) {
+      case 'select':
+        return this.evaluate(args[0], input).filter(isTruthy).map(() => input);
+
+      case 'not':
+        return [!isTruthy(input)];
+
+      case 'contains':
+        return this.evaluate(args[0], input).map(value => containsValue(input, value));
+
+      case 'inside':
+        return this.evaluate(args[0], input).map(value => containsValue(value, input));
+
+      case 'any':
+      case 'all': {
+        const wantAll = name === 'all';
+        let results: boolean[];
+        if (args.length === 2) {
+          results = this.evaluate(args[0], input).map(item =>
+            this.evaluate(args[1], item).some(isTruthy)
+          );
+        } else {
+          const items = iterableValues(input, name);
+          results = args.length === 1
+            ? items.map(item => this.evaluate(args[0], item).some(isTruthy))
+            : items.map(isTruthy);
+        }
+        return [wantAll ? results.every(Boolean) : results.some(Boolean)];
+      }
+
+      case 'length':
+        if (input === null) return [0];
+        if (typeof input === 'string' || Array.isArray(input)) return [input.length];
+        if (typeof input === 'object') return [Object.keys(input).length];
+        if (typeof input === 'number') return [Math.abs(input)];
+        throw new Error(`${typeName(input)} has no length`);
+
+      case 'startswith':
+      case 'endswith':
+        return this.evaluate(args[0], input).map(value => {
+          if (typeof input !== 'string' || typeof value !== 'string') {
+            throw new Error(`${name}() requires string inputs`);
+          }
+          return name === 'startswith' ? input.startsWith(value) : input.endsWith(value);
+        });
+
+      case 'test': {
+        const flags = args.length > 1 ? this.evaluate(args[1], input) : [''];
+        return this.evaluate(args[0], input).flatMap(pattern =>
+          flags.map(flag => {
+            if (typeof input !== 'string' || typeof pattern !== 'string') {
+              throw new Error('test() requires string inputs');
+            }
+            return new RegExp(pattern, String(flag ?? '').replace(/[^imsu]/g, '')).test(input);
+          })
+        );
+      }
+
+      case 'ascii_downcase':
+      case 'ascii_upcase':
+        if (typeof input !== 'string') {
+          throw new Error(`${name} requires a string input`);
+        }
+        return [name === 'ascii_downcase' ? input.toLowerCase() : input.toUpperCase()];
+
+      case 'tostring':
+        return [typeof input === 'string' ? input : JSON.stringify(input)];
+
+      case 'tonumber': {
+        const value = typeof input === 'number' ? input : Number(input);
+        if (Number.isNaN(value)) {
+          throw new Error(`Cannot parse ${JSON.stringify(input)} as a number`);
+        }
+        return [value];
+      }
+
+      case 'empty':
+        return [];
+
+      case 'true':
+        return [true];
+
+      case 'false':
+        return [false];
+
+      case 'null':
+        return [null];
+
+      default:
+        throw new Error(`Unsupported jq function: ${name}`);
+    }
+  }
+}
+
+class JqParser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[], private readonly source: string) {}
+
+  parseProgram(): JqNode {
+    const node = this.parsePipe();
+    if (this.index < this.tokens.length) {
+      throw this.error(`Unexpected token "${this.tokens[this.index].value}"`);
+    }
+    return node;
+  }
+
+  private parsePipe(): JqNode {
+    let left = this.parseComma();
+    while (this.matchPunct('|')) {
+      left = { type: 'pipe', left, right: this.parseComma() };
+    }
+    return left;
+  }
+
+  private parseComma(): JqNode {
+    let left = this.parseAlternative();
+    while (this.matchPunct(',')) {
+      left = { type: 'comma', left, right: this.parseAlternative() };
+    }
+    return left;
+  }
+
+  private parseAlternative(): JqNode {
+    const left = this.parseOr();
+    if (this.matchPunct('//')) {
+      // Right-associative, as in jq
+      return { type: 'alternative', left, right: this.parseAlternative() };
+    }
+    return left;
+  }
+
+  private parseOr(): JqNode {
+    let left = this.parseAnd();
+    while (this.matchIdent('or')) {
+      left = { type: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): JqNode {
+    let left = this.parseComparison();
+    while (this.matchIdent('and')) {
+      left = { type: 'and', left, right: this.parseComparison() };
+    }
+    return left;
+  }
+
+  private parseComparison(): JqNode {
+    const left = this.parseUnary();
+    const token = this.peek();
+    if (token && token.kind === 'punct' && COMPARISON_OPERATORS.includes(token.value)) {
+      this.index++;
+      const right = this.parseUnary();
+      const next = this.peek();
+      if (next && next.kind === 'punct' && COMPARISON_OPERATORS.includes(next.value)) {
+        throw this.error('Comparison operators cannot be chained');
+      }
+      return { type: 'compare', op: token.value, left, right };
+    }
+    return left;
+  }
+
+  private parseUnary(): JqNode {
+    if (!this.matchPunct('-')) {
+      return this.parsePostfix();
+    }
+    const body = this.parseUnary();
+    // Fold negative number literals such as -1 (end-of-tier rule indexes)
+    return body.type === 'literal' && typeof body.value === 'number'
+      ? { type: 'literal', value: -body.value }
+      : { type: 'negate', body };
+  }
+
+  private parsePostfix(): JqNode {
+    let node = this.parsePrimary();
+
+    for (;;) {
+      const token = this.peek();
+      if (!token) break;
+
+      if (token.kind === 'field') {
+        this.index++;
+        node = { type: 'field', target: node, name: token.value };
+      } else if (token.kind === 'dot' && this.peek(1)?.value === '[') {
+        // `.a.[0]` style access
+        this.index++;
+      } else if (token.kind === 'punct' && token.value === '[') {
+        this.index++;
+        if (this.matchPunct(']')) {
+          node = { type: 'iterate', target: node };
+        } else {
+          const index = this.parsePipe();
+          this.expectPunct(']');
+          node = { type: 'index', target: node, index };
+        }
+      } else if (token.kind === 'punct' && token.value === '?') {
+        this.index++;
+        node = { type: 'try', body: node };
+      } else {
+        break;
+      }
+    }
+
+    return node;
+  }
+
+  private parsePrimary(): JqNode {
+    const token = this.next();
+    if (!token) {
+      throw this.error('Unexpected end of filter');
+    }
+
+    switch (token.kind) {
+      case 'field':
+        return { type: 'field', target: { type: 'identity' }, name: token.value };
+
+      case 'dot':
+        return { type: 'identity' };
+
+      case 'string':
+        return { type: 'literal', value: token.value };
+
+      case 'number':
+        return { type: 'literal', value: Number(token.value) };
+
+      case 'ident':
+        return this.parseCall(token);
+
+      case 'punct':
+        if (token.value === '(') {
+          const inner = this.parsePipe();
+          this.expectPunct(')');
+          return inner;
+        }
+        if (token.value === '[') {
+          if (this.matchPunct(']')) {
+            return { type: 'array', body: null };
+          }
+          const body = this.parsePipe();
+          this.expectPunct(']');
+          return { type: 'array', body };
+        }
+        throw this.error(`Unexpected token "${token.value}"`, token);
+    }
+  }
+
+  private parseCall(token: Token): JqNode {
+    const name = token.value;
+    if (name === 'and' || name === 'or') {
+      throw this.error(`Unexpected keyword "${name}"`, token);
+    }
+
+    const args: JqNode[] = [];
+    if (this.matchPunct('(')) {
+      do {
+        args.push(this.parsePipe());
+      } while (this.matchPunct(';'));
+      this.expectPunct(')');
+    }
+
+    const arities = BUILTINS[name];
+    if (!arities) {
+      throw this.error(`Unsupported jq function "${name}"`, token);
+    }
+    if (!arities.includes(args.length)) {
+      throw this.error(`${name}/${args.length} is not defined`, token);
+    }
+
+    return { type: 'call', name, args };
+  }
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.index + offset];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.index++];
+  }
+
+  private matchPunct(value: string): boolean {
+    const token = this.peek();
+    if (token && token.kind === 'punct' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private matchIdent(value: string): boolean {
+    const token = this.peek();
+    if (token && token.kind === 'ident' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectPunct(value: string): void {
+    if (!this.matchPunct(value)) {
+      const token = this.peek();
+      throw this.error(`Expected "${value}" but found ${token ? `"${token.value}"` : 'end of filter'}`);
+    }
+  }
+
+  private error(message: string, token: Token | undefined = this.peek()): Error {
+    const position = token ? token.pos : this.source.length;
+    return new Error(`jq syntax error at position ${position}: ${message}`);
+  }
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  const readString = (start: number): { value: string; end: number } => {
+    let end = start + 1;
+    while (end < source.length && source[end] !== '"') {
+      if (source[end] === '\\') {
+        if (source[end + 1] === '(') {
+          throw new Error(`jq syntax error at position ${end}: string interpolation is not supported`);
+        }
+        end++;
+      }
+      end++;
+    }
+    if (end >= source.length) {
+      throw new Error(`jq syntax error at position ${start}: unterminated string`);
+    }
+    return { value: JSON.parse(source.slice(start, end + 1)), end: end + 1 };
+  };
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    if (char === '#') {
+      // Comments run to end of line
+      while (pos < source.length && source[pos] !== '\n') pos++;
+      continue;
+    }
+
+    if (char === '.') {
+      const nextChar = source[pos + 1];
+      if (nextChar === '.') {
+        throw new Error(`jq syntax error at position ${pos}: recursive descent (..) is not supported`);
+      }
+      if (nextChar !== undefined && /[A-Za-z_]/.test(nextChar)) {
+        const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(pos + 1))!;
+        tokens.push({ kind: 'field', value: match[0], pos });
+        pos += 1 + match[0].length;
+        continue;
+      }
+      if (nextChar === '"') {
+        const { value, end } = readString(pos + 1);
+        tokens.push({ kind: 'field', value, pos });
+        pos = end;
+        continue;
+      }
+      tokens.push({ kind: 'dot', value: '.', pos });
+      pos++;
+      continue;
+    }
+
+    if (char === '"') {
+      const { value, end } = readString(pos);
+      tokens.push({ kind: 'string', value, pos });
+      pos = end;
+      continue;
+    }
+
+    const numberMatch = /^\d+(\.\d+)?([eE][+-]?\d+)?/.exec(source.slice(pos));
+    if (numberMatch) {
+      tokens.push({ kind: 'number', value: numberMatch[0], pos });
+      pos += numberMatch[0].length;
+      continue;
+    }
+
+    const identMatch = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(pos));
+    if (identMatch) {
+      tokens.push({ kind: 'ident', value: identMatch[0], pos });
+      pos += identMatch[0].length;
+      continue;
+    }
+
+    const punct = PUNCTUATION.find(p => source.startsWith(p, pos));
+    if (punct) {
+      tokens.push({ kind: 'punct', value: punct, pos });
+      pos += punct.length;
+      continue;
+    }
+
+    throw new Error(`jq syntax error at position ${pos}: unsupported character "${char}"`);
+  }
+
+  return tokens;
+}
+
+function isTruthy(value: any): boolean {
+  return value !== null && value !== undefined && value !== false;
+}
+
+function typeName(value: any): string {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function indexValue(value: any, index: any): any {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof index === 'number' && Array.isArray(value)) {
+    const position = index < 0 ? value.length + index : index;
+    return value[Math.trunc(position)] ?? null;
+  }
+  if (typeof index === 'string' && typeof value === 'object' && !Array.isArray(value)) {
+    return ownValue(value, index);
+  }
+  throw new Error(`Cannot index ${typeName(value)} with ${typeName(index)}`);
+}
+
+// Only the object's own keys: ."constructor" or .["__proto__"] must not reach the prototype
+function ownValue(value: Record<string, any>, key: string): any {
+  return Object.hasOwn(value, key) ? value[key] ?? null : null;
+}
+
+function iterableValues(value: any, name: string): any[] {
+  if (Array.isArray(value)) return value;
+  if (value !== null && typeof value === 'object') return Object.values(value);
+  throw new Error(`Cannot iterate over ${typeName(value)} in ${name}`);
+}
+
+// jq's total ordering: null < false < true < numbers < strings < arrays < objects
+function typeRank(value: any): number {
+  if (value === null || value === undefined) return 0;
+  if (value === false) return 1;
+  if (value === true) return 2;
+  if (typeof value === 'number') return 3;
+  if (typeof value === 'string') return 4;
+  if (Array.isArray(value)) return 5;
+  return 6;
+}
+
+function compareValues(a: any, b: any): number {
+  const rankDiff = typeRank(a) - typeRank(b);
+  if (rankDiff !== 0) return rankDiff;
+
+  if (typeof a === 'number') return a - b;
+  if (typeof a === 'string') return a < b ? -1 : a > b ? 1 : 0;
+
+  if (Array.isArray(a)) {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      const diff = compareValues(a[i], b[i]);
+      if (diff !== 0) return diff;
+    }
+    return a.length - b.length;
+  }
+
+  if (a !== null && typeof a === 'object') {
+    const keysA = Object.keys(a).sort();
+    const keysB = Object.keys(b).sort();
+    const keyDiff = compareValues(keysA, keysB);
+    if (keyDiff !== 0) return keyDiff;
+    for (const key of keysA) {
+      const diff = compareValues(a[key], b[key]);
+      if (diff !== 0) return diff;
+    }
+  }
+
+  return 0;
+}
+
+function compareWith(op: string, left: any, right: any): boolean {
+  const diff = compareValues(left, right);
+  switch (op) {
+    case '==': return diff === 0;
+    case '!=': return diff !== 0;
+    case '<': return diff < 0;
+    case '<=': return diff <= 0;
+    case '>': return diff > 0;
+    case '>=': return diff >= 0;
+    default: throw new Error(`Unknown comparison operator ${op}`);
+  }
+}
+
+function containsValue(haystack: any, needle: any): boolean {
+  if (typeName(haystack) !== typeName(needle)) {
+    throw new Error(`${typeName(haystack)} and ${typeName(needle)} cannot have their containment checked`);
+  }
+  if (typeof haystack === 'string') {
+    return haystack.includes(needle);
+  }
+  if (Array.isArray(haystack)) {
+    return needle.every((n: any) => haystack.some((h: any) => typeName(h) === typeName(n) && containsValue(h, n)));
+  }
+  if (haystack !== null && typeof haystack === 'object') {
+    return Object.keys(needle).every(key =>
+      key in haystack && typeName(haystack[key]) === typeName(needle[key]) && containsValue(haystack[key], needle[key])
+    );
+  }
+  return compareValues(haystack, needle) === 0;
+}
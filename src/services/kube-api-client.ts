@@ -0,0 +1,277 @@
+import { spawn } from 'child_process';
+import { existsSync, readFileSync } from 'fs';
+import { Agent } from 'https';
+import { homedir } from 'os';
+import { delimiter, dirname, isAbsolute, join } from 'path';
+import axios from 'axios';
+import * as yaml from 'js-yaml';
+import { KubeConfig, KubeConfigCluster, KubeConfigUser } from './kubernetes.js';
+
+export class KubeApiError extends Error {
+  constructor(message: string, public readonly statusCode?: number) {
+    super(message);
+    this.name = 'KubeApiError';
+  }
+}
+
+// Credential plugins can prompt or hang on a network call; never wait on one forever
+const EXEC_CREDENTIAL_TIMEOUT_MS = 30000;
+
+interface ExecCredentialStatus {
+  token?: string;
+  clientCertificateData?: string;
+  clientKeyData?: string;
+  expirationTimestamp?: string;
+}
+
+/**
+ * The kubeconfig kubectl would use: the first existing file listed in KUBECONFIG, or
+ * ~/.kube/config. Only that one file is read; kubectl's merging of several files is not supported.
+ */
+export function defaultKubeconfigPath(env: NodeJS.ProcessEnv = process.env): string {
+  const paths = (env.KUBECONFIG || '').split(delimiter).filter(Boolean);
+  return paths.find(path => existsSync(path)) || paths[0] || join(homedir(), '.kube', 'config');
+}
+
+export function loadKubeConfig(kubeconfigPath: string): KubeConfig {
+  if (!existsSync(kubeconfigPath)) {
+    throw new Error(`Kubeconfig file not found at: ${kubeconfigPath}`);
+  }
+
+  try {
+    const configContent = readFileSync(kubeconfigPath, 'utf8');
+    const kubeconfig = yaml.load(configContent) as KubeConfig;
+
+    if (!kubeconfig || !kubeconfig.contexts) {
+      throw new Error('Invalid kubeconfig format: missing contexts');
+    }
+
+    return kubeconfig;
+  } catch (error) {
+    if (error instanceof yaml.YAMLException) {
+      throw new Error(`Invalid YAML in kubeconfig: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Minimal Kubernetes API client built from a kubeconfig context. Supports CA/client
+ * certificates (inline or file), bearer tokens, basic auth and exec credential plugins.
+ */
+export class KubeApiClient {
+  readonly contextName: string;
+  private readonly cluster: KubeConfigCluster['cluster'];
+  private readonly user: KubeConfigUser['user'];
+  private readonly baseDir: string;
+  private execCredential: ExecCredentialStatus | null = null;
+  private agent: Agent | null = null;
+
+  constructor(kubeconfig: KubeConfig, contextName: string | undefined, kubeconfigPath: string) {
+    const name = contextName || kubeconfig['current-context'];
+    if (!name) {
+      throw new Error('No context specified and no current-context set in kubeconfig');
+    }
+
+    const context = kubeconfig.contexts.find(ctx => ctx.name === name);
+    if (!context) {
+      throw new Error(`Context "${name}" not found in kubeconfig`);
+    }
+
+    const cluster = (kubeconfig.clusters || []).find(c => c.name === context.context.cluster);
+    if (!cluster) {
+      throw new Error(`Cluster "${context.context.cluster}" for context "${name}" not found in kubeconfig`);
+    }
+
+    this.contextName = name;
+    this.cluster = cluster.cluster;
+    this.user = (kubeconfig.users || []).find(u => u.name === context.context.user)?.user || {};
+    this.baseDir = dirname(kubeconfigPath);
+  }
+
+  static fromKubeconfig(kubeconfigPath: string, contextName?: string): KubeApiClient {
+    return new KubeApiClient(loadKubeConfig(kubeconfigPath), contextName, kubeconfigPath);
+  }
+
+  getServer(): string {
+    return this.cluster.server.replace(/\/+$/, '');
+  }
+
+  async get<T = any>(path: string, timeout = 10000): Promise<T> {
+    const headers = await this.authHeaders();
+    const agent = await this.httpsAgent();
+
+    try {
+      const response = await axios.get<T>(`${this.getServer()}${path}`, {
+        headers: { Accept: 'application/json', ...headers },
+        httpsAgent: agent,
+        timeout,
+      });
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const status = error.response?.status;
+        const data: any = error.response?.data;
+        // Kubernetes returns a Status object with a human-readable message
+        const message = data && typeof data === 'object' && data.message ? data.message : error.message;
+        throw new KubeApiError(status ? `${message} (HTTP ${status})` : message, status);
+      }
+      throw error;
+    }
+  }
+
+  async getVersion(): Promise<{ major: string; minor: string; gitVersion: string }> {
+    return this.get('/version');
+  }
+
+  async getNamespace(name: string): Promise<any> {
+    return this.get(`/api/v1/namespaces/${encodeURIComponent(name)}`);
+  }
+
+  async getService(namespace: string, name: string): Promise<any> {
+    return this.get(`/api/v1/namespaces/${encodeURIComponent(namespace)}/services/${encodeURIComponent(name)}`);
+  }
+
+  async getResource(apiPath: string, plural: string, name: string, namespace?: string): Promise<any> {
+    const namespacePath = namespace ? `/namespaces/${encodeURIComponent(namespace)}` : '';
+    return this.get(`${apiPath}${namespacePath}/${plural}/${encodeURIComponent(name)}`);
+  }
+
+  /**
+   * List a resource type, in one namespace or across all of them.
+   */
+  async listResources(apiPath: string, plural: string, namespace?: string): Promise<any[]> {
+    const namespacePath = namespace ? `/namespaces/${encodeURIComponent(namespace)}` : '';
+    const list = await this.get<{ items?: any[] }>(`${apiPath}${namespacePath}/${plural}`);
+    return list.items || [];
+  }
+
+  serviceProxyPath(namespace: string, service: string, port: number, path: string): string {
+    return `/api/v1/namespaces/${encodeURIComponent(namespace)}/services/${encodeURIComponent(service)}:${port}/proxy${path}`;
+  }
+
+  /**
+   * GET a path on a cluster service through the API server's service proxy.
+   */
+  async proxyGet<T = any>(namespace: string, service: string, port: number, path: string, timeout = 10000): Promise<T> {
+    return this.get<T>(this.serviceProxyPath(namespace, service, port, path), timeout);
+  }
+
+  private async authHeaders(): Promise<Record<string, string>> {
+    if (this.user.token) {
+      return { Authorization: `Bearer ${this.user.token}` };
+    }
+    if (this.user.tokenFile) {
+      return { Authorization: `Bearer ${readFileSync(this.resolvePath(this.user.tokenFile), 'utf8').trim()}` };
+    }
+    if (this.user.username && this.user.password) {
+      const credentials = Buffer.from(`${this.user.username}:${this.user.password}`).toString('base64');
+      return { Authorization: `Basic ${credentials}` };
+    }
+    if (this.user.exec) {
+      const credential = await this.getExecCredential();
+      if (credential.token) {
+        return { Authorization: `Bearer ${credential.token}` };
+      }
+    }
+    return {};
+  }
+
+  private async httpsAgent(): Promise<Agent> {
+    // Exec plugins may rotate client certificates, so only cache static agents
+    if (this.agent && !this.user.exec) {
+      return this.agent;
+    }
+
+    const ca = this.readData(this.cluster['certificate-authority-data'], this.cluster['certificate-authority']);
+    let cert = this.readData(this.user['client-certificate-data'], this.user['client-certificate']);
+    let key = this.readData(this.user['client-key-data'], this.user['client-key']);
+
+    if (this.user.exec && !cert) {
+      const credential = await this.getExecCredential();
+      cert = credential.clientCertificateData ? Buffer.from(credential.clientCertificateData) : undefined;
+      key = credential.clientKeyData ? Buffer.from(credential.clientKeyData) : undefined;
+    }
+
+    this.agent = new Agent({
+      ca,
+      cert,
+      key,
+      rejectUnauthorized: !this.cluster['insecure-skip-tls-verify'],
+    });
+    return this.agent;
+  }
+
+  private readData(inlineData?: string, filePath?: string): Buffer | undefined {
+    if (inlineData) {
+      return Buffer.from(inlineData, 'base64');
+    }
+    if (filePath) {
+      return readFileSync(this.resolvePath(filePath));
+    }
+    return undefined;
+  }
+
+  private resolvePath(filePath: string): string {
+    // Relative paths in a kubeconfig are relative to the kubeconfig file itself
+    return isAbsolute(filePath) ? filePath : join(this.baseDir, filePath);
+  }
+
+  private async getExecCredential(): Promise<ExecCredentialStatus> {
+    const cached = this.execCredential;
+    if (cached && (!cached.expirationTimestamp || new Date(cached.expirationTimestamp).getTime() - Date.now() > 60000)) {
+      return cached;
+    }
+
+    const exec = this.user.exec;
+    const env: NodeJS.ProcessEnv = { ...process.env };
+    (exec.env || []).forEach((entry: { name: string; value: string }) => {
+      env[entry.name] = entry.value;
+    });
+    env.KUBERNETES_EXEC_INFO = JSON.stringify({
+      apiVersion: exec.apiVersion,
+      kind: 'ExecCredential',
+      spec: { interactive: false },
+    });
+
+    const status = await new Promise<ExecCredentialStatus>((resolve, reject) => {
+      const process = spawn(exec.command, exec.args || [], { env });
+      let stdout = '';
+      let stderr = '';
+
+      const timer = setTimeout(() => {
+        process.kill('SIGKILL');
+        reject(new Error(`Credential plugin ${exec.command} did not return within ${EXEC_CREDENTIAL_TIMEOUT_MS / 1000} seconds`));
+      }, EXEC_CREDENTIAL_TIMEOUT_MS);
+
+      process.stdout?.on('data', (data) => {
+        stdout += data.toString();
+      });
+
+      process.stderr?.on('data', (data) => {
+        stderr += data.toString();
+      });
+
+      process.on('close', (code) => {
+        clearTimeout(timer);
+        if (code !== 0) {
+          reject(new Error(`Credential plugin ${exec.command} exited with code ${code}: ${stderr.trim()}`));
+          return;
+        }
+        try {
+          resolve(JSON.parse(stdout).status || {});
+        } catch (error) {
+          reject(new Error(`Credential plugin ${exec.command} returned invalid JSON`));
+        }
+      });
+
+      process.on('error', (error) => {
+        clearTimeout(timer);
+        reject(new Error(`Failed to run credential plugin ${exec.command}: ${error.message}`));
+      });
+    });
+
+    this.execCredential = status;
+    return status;
+  }
+}
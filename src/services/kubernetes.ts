@@ -1,15 +1,5 @@
-import { spawn } from 'child_process';
-import { readFileSync, existsSync } from 'fs';
-import { join } from 'path';
-import { homedir } from 'os';
-import * as yaml from 'js-yaml';
-
-const DEFAULT_PATH = '/opt/homebrew/bin:/usr/local/bin:/usr/bin:/bin:/usr/sbin:/sbin';
-function getEnvWithPath() {
-  // Defensive: ensure process.env exists and merge with a default PATH
-  const env = { ...(process.env || {}), PATH: (process.env && process.env.PATH) ? process.env.PATH : DEFAULT_PATH };
-  return env;
-}
+import { existsSync } from 'fs';
+import { KubeApiClient, KubeApiError, defaultKubeconfigPath, loadKubeConfig } from './kube-api-client.js';
 
 export class KubernetesService {
   private currentContext: string | null = null;
@@ -21,7 +11,7 @@ export class KubernetesService {
       this.kubeconfigPath = kubeconfigPath;
     } else {
       // Use default kubeconfig location
-      this.kubeconfigPath = join(homedir(), '.kube', 'config');
+      this.kubeconfigPath = this.getDefaultKubeconfigPath();
     }
 
     // Set context if provided
@@ -33,83 +23,47 @@ export class KubernetesService {
     await this.verifyConnection();
   }
 
+  /**
+   * Build an API client for the given context (or the selected/current one).
+   */
+  getApiClient(context?: string, kubeconfigPath?: string): KubeApiClient {
+    const configPath = kubeconfigPath || this.kubeconfigPath || this.getDefaultKubeconfigPath();
+    return KubeApiClient.fromKubeconfig(configPath, context || this.currentContext || undefined);
+  }
+
   private async setContext(context: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const args = ['config', 'use-context', context];
-      if (this.kubeconfigPath) {
-        args.unshift('--kubeconfig', this.kubeconfigPath);
-      }
-      const env = getEnvWithPath();
-      console.error('Spawning kubectl for setContext with PATH:', env.PATH);
-      const process = spawn('kubectl', args, { env });
+    const configPath = this.kubeconfigPath || this.getDefaultKubeconfigPath();
+    const kubeconfig = this.parseKubeConfig(configPath);
 
-      process.on('close', (code) => {
-        if (code === 0) {
-          this.currentContext = context;
-          resolve();
-        } else {
-          reject(new Error(`Failed to set context to ${context}`));
-        }
-      });
+    if (!kubeconfig.contexts.some(ctx => ctx.name === context)) {
+      throw new Error(`Failed to set context to ${context}: context not found in ${configPath}`);
+    }
 
-      process.on('error', (error) => {
-        reject(new Error(`Failed to execute kubectl: ${error.message}`));
-      });
-    });
+    // Scoped to this service: every API call passes the context explicitly, so the
+    // kubeconfig's current-context (shared with other terminals) is left untouched
+    this.currentContext = context;
   }
 
   private async verifyConnection(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const args = ['cluster-info'];
-      if (this.kubeconfigPath) {
-        args.unshift('--kubeconfig', this.kubeconfigPath);
-      }
-      const env = getEnvWithPath();
-      console.error('Spawning kubectl for verifyConnection with PATH:', env.PATH);
-      const process = spawn('kubectl', args, { env });
-
-      let stderr = '';
-      process.stderr?.on('data', (data) => {
-        stderr += data.toString();
-      });
-
-      process.on('close', (code) => {
-        if (code === 0) {
-          resolve();
-        } else {
-          console.error('kubectl verifyConnection stderr:', stderr);
-          reject(new Error('Failed to connect to Kubernetes cluster: ' + stderr));
-        }
-      });
-
-      process.on('error', (error) => {
-        reject(new Error(`Failed to execute kubectl: ${error.message}`));
-      });
-    });
+    try {
+      await this.getApiClient().getVersion();
+    } catch (error) {
+      console.error('verifyConnection error:', error instanceof Error ? error.message : String(error));
+      throw new Error('Failed to connect to Kubernetes cluster: ' + (error instanceof Error ? error.message : String(error)));
+    }
   }
 
-  async checkCalicoWhiskerInstalled(): Promise<boolean> {
-    return new Promise((resolve) => {
-      const args = ['get', 'namespace', 'calico-system'];
-      if (this.kubeconfigPath) {
-        args.unshift('--kubeconfig', this.kubeconfigPath);
-      }
-      const env = getEnvWithPath();
-      console.error('Spawning kubectl for checkCalicoWhiskerInstalled with PATH:', env.PATH);
-      const process = spawn('kubectl', args, { env });
-
-      process.on('close', (code) => {
-        resolve(code === 0);
-      });
-
-      process.on('error', () => {
-        resolve(false);
-      });
-    });
+  async checkCalicoWhiskerInstalled(namespace = 'calico-system'): Promise<boolean> {
+    try {
+      await this.getApiClient().getNamespace(namespace);
+      return true;
+    } catch {
+      return false;
+    }
   }
 
   async getAvailableContexts(kubeconfigPath?: string): Promise<ContextInfo[]> {
-    const configPath = kubeconfigPath || this.kubeconfigPath || join(homedir(), '.kube', 'config');
+    const configPath = kubeconfigPath || this.kubeconfigPath || this.getDefaultKubeconfigPath();
     
     try {
       const kubeconfig = this.parseKubeConfig(configPath);
@@ -126,7 +80,7 @@ export class KubernetesService {
   }
 
   async getCurrentContextInfo(kubeconfigPath?: string): Promise<ContextInfo | null> {
-    const configPath = kubeconfigPath || this.kubeconfigPath || join(homedir(), '.kube', 'config');
+    const configPath = kubeconfigPath || this.kubeconfigPath || this.getDefaultKubeconfigPath();
     
     try {
       const kubeconfig = this.parseKubeConfig(configPath);
@@ -154,7 +108,7 @@ export class KubernetesService {
   }
 
   getDefaultKubeconfigPath(): string {
-    return join(homedir(), '.kube', 'config');
+    return defaultKubeconfigPath();
   }
 
   kubeconfigExists(kubeconfigPath?: string): boolean {
@@ -163,25 +117,7 @@ export class KubernetesService {
   }
 
   private parseKubeConfig(kubeconfigPath: string): KubeConfig {
-    if (!existsSync(kubeconfigPath)) {
-      throw new Error(`Kubeconfig file not found at: ${kubeconfigPath}`);
-    }
-    
-    try {
-      const configContent = readFileSync(kubeconfigPath, 'utf8');
-      const kubeconfig = yaml.load(configContent) as KubeConfig;
-      
-      if (!kubeconfig || !kubeconfig.contexts) {
-        throw new Error('Invalid kubeconfig format: missing contexts');
-      }
-      
-      return kubeconfig;
-    } catch (error) {
-      if (error instanceof yaml.YAMLException) {
-        throw new Error(`Invalid YAML in kubeconfig: ${error.message}`);
-      }
-      throw error;
-    }
+    return loadKubeConfig(kubeconfigPath);
   }
 
   getCurrentContext(): string | null {
@@ -192,96 +128,36 @@ export class KubernetesService {
     return this.kubeconfigPath;
   }
 
-  async checkServerAccessibility(contextInfo?: any): Promise<{ accessible: boolean; error?: string }> {
-    return new Promise((resolve) => {
-      const args = ['cluster-info'];
-      if (this.kubeconfigPath) {
-        args.unshift('--kubeconfig', this.kubeconfigPath);
-      }
-      if (contextInfo?.name) {
-        args.push('--context', contextInfo.name);
-      }
-
-      const env = getEnvWithPath();
-      const process = spawn('kubectl', args, { env });
-
-      let stderr = '';
-      process.stderr?.on('data', (data) => {
-        stderr += data.toString();
-      });
-
-      process.on('close', (code) => {
-        if (code === 0) {
-          resolve({ accessible: true });
-        } else {
-          resolve({ 
-            accessible: false, 
-            error: stderr || `kubectl exited with code ${code}` 
-          });
-        }
-      });
-
-      process.on('error', (error) => {
-        resolve({ 
-          accessible: false, 
-          error: `Failed to execute kubectl: ${error.message}` 
-        });
-      });
-    });
+  async checkServerAccessibility(contextInfo?: any, kubeconfigPath?: string): Promise<{ accessible: boolean; error?: string }> {
+    try {
+      await this.getApiClient(contextInfo?.name, kubeconfigPath).getVersion();
+      return { accessible: true };
+    } catch (error) {
+      return {
+        accessible: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
   }
 
-  async checkWhiskerService(): Promise<{ available: boolean; details: string }> {
-    return new Promise((resolve) => {
-      const args = ['get', 'service', 'whisker', '-n', 'calico-system', '-o', 'json'];
-      if (this.kubeconfigPath) {
-        args.unshift('--kubeconfig', this.kubeconfigPath);
-      }
-      const env = getEnvWithPath();
-      const process = spawn('kubectl', args, { env });
-
-      let stdout = '';
-      let stderr = '';
-
-      process.stdout?.on('data', (data) => {
-        stdout += data.toString();
-      });
-
-      process.stderr?.on('data', (data) => {
-        stderr += data.toString();
-      });
-
-      process.on('close', (code) => {
-        if (code === 0) {
-          try {
-            const service = JSON.parse(stdout);
-            const ports = service.spec?.ports || [];
-            const whiskerPort = ports.find((p: any) => p.port === 8081 || p.targetPort === 8081);
-            
-            resolve({
-              available: true,
-              details: `Service found with ${ports.length} port(s). Whisker port: ${whiskerPort ? 'Available' : 'Not found'}`
-            });
-          } catch (error) {
-            resolve({
-              available: false,
-              details: 'Service found but could not parse details'
-            });
-          }
-        } else {
-          resolve({
-            available: false,
-            details: stderr.includes('not found') ? 'Whisker service not found' : `Error: ${stderr}`
-          });
-        }
-      });
+  async checkWhiskerService(namespace = 'calico-system', serviceName = 'whisker', servicePort = 8081): Promise<{ available: boolean; details: string }> {
+    try {
+      const service = await this.getApiClient().getService(namespace, serviceName);
+      const ports = service.spec?.ports || [];
+      const whiskerPort = ports.find((p: any) => p.port === servicePort || p.targetPort === servicePort);
 
-      process.on('error', () => {
-        resolve({
-          available: false,
-          details: 'kubectl command failed'
-        });
-      });
-    });
+      return {
+        available: true,
+        details: `Service found with ${ports.length} port(s). Whisker port: ${whiskerPort ? 'Available' : 'Not found'}`
+      };
+    } catch (error) {
+      return {
+        available: false,
+        details: error instanceof KubeApiError && error.statusCode === 404
+          ? 'Whisker service not found'
+          : `Error: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
   }
 }
 
@@ -312,6 +188,7 @@ export interface KubeConfigUser {
     'client-key'?: string;
     'client-key-data'?: string;
     token?: string;
+    tokenFile?: string;
     username?: string;
     password?: string;
     exec?: any;
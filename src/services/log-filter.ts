@@ -1,7 +1,30 @@
 import { spawn } from 'child_process';
+import * as yaml from 'js-yaml';
 import { FlowLog } from './calico-whisker.js';
+import { FlowFilter, compileFlowFilter, validateFlowFilter } from './flow-filter.js';
+import { JqFilterEngine } from './jq-engine.js';
+
+export interface GeneratedPolicies {
+  policies: any[];
+  // Flows that no rule was generated for, and why
+  warnings: string[];
+}
+
+// Calico protocol names; ports can only be matched for the port-based protocols
+const CALICO_PROTOCOLS: Record<string, string> = {
+  tcp: 'TCP',
+  udp: 'UDP',
+  sctp: 'SCTP',
+  icmp: 'ICMP',
+  icmp6: 'ICMPv6',
+  icmpv6: 'ICMPv6',
+  udplite: 'UDPLite',
+};
+const PORT_PROTOCOLS = new Set(['TCP', 'UDP', 'SCTP']);
 
 export class LogFilterService {
+  private readonly jqEngine = new JqFilterEngine();
+
   async filterLogs(logs: FlowLog[], jqFilter?: string, startTime?: string, endTime?: string): Promise<FlowLog[]> {
     if (!jqFilter && !startTime && !endTime) {
       return logs;
@@ -35,48 +58,79 @@ export class LogFilterService {
     return this.executeJqFilter(logs, filter);
   }
 
+  buildStructuredFilter(where: unknown): string {
+    // Throws a descriptive error for malformed input so callers can surface it to the client
+    return compileFlowFilter(validateFlowFilter(where));
+  }
+
   buildDeniedStagedPoliciesFilter(namespace?: string, sourceName?: string, destName?: string): string {
-    let filter = 'select(.policies.pending != null and (any(.policies.pending[]; .action == "Deny" and .trigger.kind == "StagedNetworkPolicy")))';
+    const conditions: FlowFilter[] = [
+      {
+        anyPolicy: 'pending',
+        where: {
+          and: [
+            { field: 'action', op: 'eq', value: 'Deny' },
+            { field: 'trigger.kind', op: 'eq', value: 'StagedNetworkPolicy' }
+          ]
+        }
+      }
+    ];
     
     if (namespace) {
-      filter += ` | select(.source_namespace == "${namespace}" or .dest_namespace == "${namespace}")`;
+      conditions.push(this.namespaceCondition(namespace));
     }
     
     if (sourceName) {
-      filter += ` | select(.source_name | contains("${sourceName}"))`;
+      conditions.push({ field: 'source_name', op: 'contains', value: sourceName });
     }
     
     if (destName) {
-      filter += ` | select(.dest_name | contains("${destName}"))`;
+      conditions.push({ field: 'dest_name', op: 'contains', value: destName });
     }
     
-    return filter;
+    return compileFlowFilter({ and: conditions });
   }
 
   buildPolicyViolationsFilter(action?: string, namespace?: string, protocol?: string): string {
-    let filter = '.';
+    const conditions: FlowFilter[] = [];
     
     if (action) {
-      filter += ` | select(.action == "${action}")`;
+      conditions.push({ field: 'action', op: 'eq', value: action });
     }
     
     if (namespace) {
-      filter += ` | select(.source_namespace == "${namespace}" or .dest_namespace == "${namespace}")`;
+      conditions.push(this.namespaceCondition(namespace));
     }
     
     if (protocol) {
-      filter += ` | select(.protocol == "${protocol}")`;
+      conditions.push({ field: 'protocol', op: 'eq', value: protocol });
     }
     
-    return filter;
+    return compileFlowFilter({ and: conditions });
   }
 
   buildHighTrafficFilter(minPackets: number, minBytes: number): string {
-    return `select(.packets_in >= ${minPackets} or .packets_out >= ${minPackets} or .bytes_in >= ${minBytes} or .bytes_out >= ${minBytes})`;
+    return compileFlowFilter({
+      or: [
+        { field: 'packets_in', op: 'gte', value: minPackets },
+        { field: 'packets_out', op: 'gte', value: minPackets },
+        { field: 'bytes_in', op: 'gte', value: minBytes },
+        { field: 'bytes_out', op: 'gte', value: minBytes }
+      ]
+    });
   }
 
   buildNamespaceFilter(namespace: string): string {
-    return `select(.source_namespace == "${namespace}" or .dest_namespace == "${namespace}")`;
+    return compileFlowFilter(this.namespaceCondition(namespace));
+  }
+
+  private namespaceCondition(namespace: string): FlowFilter {
+    return {
+      or: [
+        { field: 'source_namespace', op: 'eq', value: namespace },
+        { field: 'dest_namespace', op: 'eq', value: namespace }
+      ]
+    };
   }
 
   aggregateLogsForPolicyGeneration(logs: FlowLog[], namespace: string): any[] {
@@ -122,82 +176,120 @@ export class LogFilterService {
     }));
   }
 
-  generateCalicoNetworkPolicies(aggregatedLogs: any[], namespace: string, selectorKey: string): any[] {
+  generateCalicoNetworkPolicies(aggregatedLogs: any[], namespace: string, selectorKey: string): GeneratedPolicies {
+    const warnings: string[] = [];
+
+    // Only traffic that was allowed is turned into Allow rules; denied-only flows may be
+    // exactly what the current policies are meant to block
+    const allowedLogs = aggregatedLogs.filter(log => {
+      if (log.actions.includes('Allow')) {
+        return true;
+      }
+      warnings.push(`Skipped ${this.describeFlow(log)}: only ${log.actions.join('/') || 'unknown'} actions were observed`);
+      return false;
+    });
+
+    // Egress policies cover traffic leaving workloads in the namespace, ingress policies
+    // cover traffic arriving at them, so the set can be enforced under default deny
+    return {
+      policies: [
+        ...this.buildDirectionalPolicies(allowedLogs, namespace, selectorKey, 'Egress', warnings),
+        ...this.buildDirectionalPolicies(allowedLogs, namespace, selectorKey, 'Ingress', warnings)
+      ],
+      warnings
+    };
+  }
+
+  private describeFlow(log: any): string {
+    return `${log.source_namespace}/${log.source_name} -> ${log.dest_namespace}/${log.dest_name} ${log.protocol}/${log.dest_port}`;
+  }
+
+  private buildDirectionalPolicies(aggregatedLogs: any[], namespace: string, selectorKey: string, direction: 'Egress' | 'Ingress', warnings: string[]): any[] {
     const policies: any[] = [];
+    const isEgress = direction === 'Egress';
     
-    // Group flows by source workload (based on selector key)
-    const sourceGroups = new Map<string, any[]>();
+    // Group flows by the local workload (source for egress, destination for ingress)
+    const workloadGroups = new Map<string, any[]>();
     
     aggregatedLogs.forEach(log => {
-      if (log.source_namespace === namespace) {
-        // Extract the selector value from source_labels
-        const selectorValue = this.extractLabelValue(log.source_labels, selectorKey);
+      const localNamespace = isEgress ? log.source_namespace : log.dest_namespace;
+      if (localNamespace === namespace) {
+        // Extract the selector value from the local workload labels
+        const selectorValue = this.extractLabelValue(isEgress ? log.source_labels : log.dest_labels, selectorKey);
         if (selectorValue) {
-          const groupKey = `${selectorValue}`;
-          if (!sourceGroups.has(groupKey)) {
-            sourceGroups.set(groupKey, []);
+          if (!workloadGroups.has(selectorValue)) {
+            workloadGroups.set(selectorValue, []);
           }
-          sourceGroups.get(groupKey)!.push(log);
+          workloadGroups.get(selectorValue)!.push(log);
         }
       }
     });
 
-    // Generate a policy for each source workload group
-    sourceGroups.forEach((flows, selectorValue) => {
-      const policyName = `allow-${selectorValue.toLowerCase().replace(/[^a-z0-9]/g, '-')}-egress`;
+    // Generate a policy for each workload group
+    workloadGroups.forEach((flows, selectorValue) => {
+      const policyName = `allow-${selectorValue.toLowerCase().replace(/[^a-z0-9]/g, '-')}-${direction.toLowerCase()}`;
+      const peerField = isEgress ? 'destination' : 'source';
       
-      // Group egress rules by destination
-      const egressRules: any[] = [];
-      const destinationGroups = new Map<string, any[]>();
+      // Group rules by peer namespace, peer workload and port
+      const rules: any[] = [];
+      const peerGroups = new Map<string, { peerNamespace: string; peerSelector: string | null; protocol: string; port: string }>();
       
       flows.forEach(flow => {
-        const destKey = `${flow.dest_namespace}|${flow.protocol}|${flow.dest_port}`;
-        if (!destinationGroups.has(destKey)) {
-          destinationGroups.set(destKey, []);
+        const peerNamespace = isEgress ? flow.dest_namespace : flow.source_namespace;
+        const peerSelector = this.extractLabelValue(isEgress ? flow.dest_labels : flow.source_labels, selectorKey);
+
+        // An empty peer would allow every endpoint, so peers that cannot be selected are left out
+        if (!peerNamespace || peerNamespace === '-') {
+          warnings.push(`Skipped ${this.describeFlow(flow)} in ${policyName}: the ${isEgress ? 'destination' : 'source'} is not a Kubernetes workload`);
+          return;
+        }
+        if (peerNamespace === namespace && !peerSelector) {
+          warnings.push(`Skipped ${this.describeFlow(flow)} in ${policyName}: the ${isEgress ? 'destination' : 'source'} has no "${selectorKey}" label`);
+          return;
+        }
+
+        const peerKey = `${peerNamespace}|${peerSelector ?? ''}|${flow.protocol}|${flow.dest_port}`;
+        if (!peerGroups.has(peerKey)) {
+          peerGroups.set(peerKey, {
+            peerNamespace,
+            peerSelector,
+            protocol: String(flow.protocol),
+            port: String(flow.dest_port)
+          });
         }
-        destinationGroups.get(destKey)!.push(flow);
       });
 
-      destinationGroups.forEach((destFlows, destKey) => {
-        const [destNamespace, protocol, destPort] = destKey.split('|');
-        
+      peerGroups.forEach(({ peerNamespace, peerSelector, protocol, port }) => {
+        const calicoProtocol = CALICO_PROTOCOLS[protocol.toLowerCase()];
         const rule: any = {
           action: "Allow",
-          destination: {},
-          protocol: protocol.toUpperCase()
+          ...(calicoProtocol ? { protocol: calicoProtocol } : {}),
+          [peerField]: {}
         };
 
-        if (destNamespace !== namespace) {
+        if (peerNamespace !== namespace) {
           // External namespace
-          rule.destination.namespaceSelector = {
-            matchLabels: {
-              "kubernetes.io/metadata.name": destNamespace
-            }
-          };
-        } else {
-          // Same namespace - try to extract selector from dest_labels
-          const destSelector = this.extractLabelValue(destFlows[0].dest_labels, selectorKey);
-          if (destSelector) {
-            rule.destination.selector = {
-              matchLabels: {
-                [selectorKey]: destSelector
-              }
-            };
-          }
+          rule[peerField].namespaceSelector = `kubernetes.io/metadata.name == '${peerNamespace}'`;
+        }
+        if (peerSelector) {
+          // Select the peer workload by the same label key
+          rule[peerField].selector = `${selectorKey} == '${peerSelector}'`;
         }
 
-        if (destPort && destPort !== 'null' && destPort !== '0') {
-          rule.ports = [
-            {
-              protocol: protocol.toUpperCase(),
-              port: parseInt(destPort)
-            }
-          ];
+        // Calico matches ports on the destination entity, for ingress and egress alike
+        const portNumber = parseInt(port);
+        if (calicoProtocol && PORT_PROTOCOLS.has(calicoProtocol) && portNumber > 0) {
+          rule.destination = { ...rule.destination, ports: [portNumber] };
         }
 
-        egressRules.push(rule);
+        rules.push(rule);
       });
 
+      // A policy without rules would deny all of the workload's traffic in this direction
+      if (rules.length === 0) {
+        return;
+      }
+
       const policy = {
         apiVersion: "projectcalico.org/v3",
         kind: "NetworkPolicy",
@@ -206,13 +298,9 @@ export class LogFilterService {
           namespace: namespace
         },
         spec: {
-          selector: {
-            matchLabels: {
-              [selectorKey]: selectorValue
-            }
-          },
-          types: ["Egress"],
-          egress: egressRules
+          selector: `${selectorKey} == '${selectorValue}'`,
+          types: [direction],
+          [isEgress ? 'egress' : 'ingress']: rules
         }
       };
 
@@ -222,6 +310,13 @@ export class LogFilterService {
     return policies;
   }
 
+  renderPoliciesAsYaml(policies: any[]): string {
+    // Emit a multi-document stream that can be piped straight into kubectl/calicoctl apply
+    return policies
+      .map(policy => yaml.dump(policy, { noRefs: true, lineWidth: -1 }).trimEnd())
+      .join('\n---\n');
+  }
+
   private extractLabelValue(labels: string, key: string): string | null {
     if (!labels) return null;
     
@@ -239,6 +334,24 @@ export class LogFilterService {
   }
 
   private async executeJqFilter(logs: FlowLog[], filter: string): Promise<FlowLog[]> {
+    try {
+      this.jqEngine.compile(filter);
+    } catch (compileError) {
+      // Fall back to the jq binary for syntax outside the built-in subset
+      if (await this.checkJqAvailable()) {
+        return this.executeExternalJq(logs, filter);
+      }
+      throw new Error(`JQ filter failed: ${compileError instanceof Error ? compileError.message : String(compileError)}`);
+    }
+
+    try {
+      return this.jqEngine.run(filter, { items: logs }).filter(result => result !== null && result !== undefined);
+    } catch (error) {
+      throw new Error(`JQ filter failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private async executeExternalJq(logs: FlowLog[], filter: string): Promise<FlowLog[]> {
     return new Promise((resolve, reject) => {
       const input = JSON.stringify({ items: logs });
       const process = spawn('jq', ['-c', filter]);
@@ -0,0 +1,155 @@
+import { BlockedFlowAnalysis, FlowLog, NamespaceSummaryFlow, Policy } from './calico-whisker.js';
+import { ContextInfo } from './kubernetes.js';
+
+export type OutputFormat = 'json' | 'ndjson' | 'csv' | 'table' | 'markdown';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['json', 'ndjson', 'csv', 'table', 'markdown'];
+
+export interface Column<T> {
+  header: string;
+  value: (row: T) => string | number | null | undefined;
+}
+
+/**
+ * How a command's result is printed: the whole result as JSON, its records as JSON lines,
+ * or one row per record in the tabular formats.
+ */
+export interface OutputView<T> {
+  data: unknown;
+  records: T[];
+  columns: Column<T>[];
+}
+
+export function parseOutputFormat(value: string | undefined, fallback: OutputFormat = 'json'): OutputFormat {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (!OUTPUT_FORMATS.includes(value as OutputFormat)) {
+    throw new Error(`Invalid output format "${value}" (expected one of ${OUTPUT_FORMATS.join(', ')})`);
+  }
+  return value as OutputFormat;
+}
+
+export function renderOutput<T>(view: OutputView<T>, format: OutputFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(view.data, null, 2);
+    case 'ndjson':
+      return view.records.map(record => JSON.stringify(record)).join('\n');
+    case 'csv':
+      return renderCsv(view.records, view.columns);
+    case 'table':
+      return renderTable(view.records, view.columns);
+    case 'markdown':
+      return renderMarkdown(view.records, view.columns);
+    default:
+      throw new Error(`Unsupported output format "${format}"`);
+  }
+}
+
+function cells<T>(rows: T[], columns: Column<T>[]): string[][] {
+  return rows.map(row => columns.map(column => {
+    const value = column.value(row);
+    return value === null || value === undefined ? '' : String(value);
+  }));
+}
+
+function renderCsv<T>(rows: T[], columns: Column<T>[]): string {
+  // RFC 4180: quote fields containing separators, quotes or line breaks
+  const quote = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  return [columns.map(column => column.header), ...cells(rows, columns)]
+    .map(line => line.map(quote).join(','))
+    .join('\n');
+}
+
+function renderTable<T>(rows: T[], columns: Column<T>[]): string {
+  const lines = [columns.map(column => column.header), ...cells(rows, columns).map(line => line.map(value => value.replace(/\s*\n\s*/g, ' ')))];
+  const widths = columns.map((_, index) => Math.max(...lines.map(line => line[index].length)));
+  const format = (line: string[]) => line.map((value, index) => value.padEnd(widths[index])).join('  ').trimEnd();
+  return [format(lines[0]), widths.map(width => '-'.repeat(width)).join('  '), ...lines.slice(1).map(format)].join('\n');
+}
+
+function renderMarkdown<T>(rows: T[], columns: Column<T>[]): string {
+  const escape = (value: string) => value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, '<br>');
+  const line = (values: string[]) => `| ${values.map(escape).join(' | ')} |`;
+  return [line(columns.map(column => column.header)), `|${columns.map(() => '---').join('|')}|`, ...cells(rows, columns).map(line)].join('\n');
+}
+
+// Summaries decorate actions and statuses with emoji ("🚨 Deny"); tabular output keeps the word
+function plain(value: string | undefined): string {
+  return (value || '').replace(/^[^A-Za-z0-9]+/, '');
+}
+
+function policyNames(policies: Policy[] | undefined): string {
+  return (policies || []).map(policy => policy.namespace ? `${policy.namespace}/${policy.name}` : policy.name).join('; ');
+}
+
+export const FLOW_LOG_COLUMNS: Column<FlowLog>[] = [
+  { header: 'start_time', value: log => log.start_time },
+  { header: 'end_time', value: log => log.end_time },
+  { header: 'action', value: log => log.action },
+  { header: 'reporter', value: log => log.reporter },
+  { header: 'source_namespace', value: log => log.source_namespace },
+  { header: 'source_name', value: log => log.source_name },
+  { header: 'dest_namespace', value: log => log.dest_namespace },
+  { header: 'dest_name', value: log => log.dest_name },
+  { header: 'protocol', value: log => log.protocol },
+  { header: 'dest_port', value: log => log.dest_port },
+  { header: 'packets_in', value: log => log.packets_in },
+  { header: 'packets_out', value: log => log.packets_out },
+  { header: 'bytes_in', value: log => log.bytes_in },
+  { header: 'bytes_out', value: log => log.bytes_out },
+  { header: 'enforced_policies', value: log => policyNames(log.policies?.enforced) },
+  { header: 'pending_policies', value: log => policyNames(log.policies?.pending) },
+];
+
+/**
+ * Columns for the flows of getNamespaceFlowSummary.
+ */
+export const NAMESPACE_SUMMARY_COLUMNS: Column<NamespaceSummaryFlow>[] = [
+  { header: 'status', value: flow => plain(flow.status) },
+  { header: 'source_namespace', value: flow => flow.source.namespace },
+  { header: 'source', value: flow => flow.source.name },
+  { header: 'source_action', value: flow => plain(flow.source.action) },
+  { header: 'dest_namespace', value: flow => flow.destination.namespace },
+  { header: 'destination', value: flow => flow.destination.name },
+  { header: 'dest_action', value: flow => plain(flow.destination.action) },
+  { header: 'protocol', value: flow => flow.connection.protocol },
+  { header: 'port', value: flow => flow.connection.port },
+  { header: 'packets', value: flow => flow.traffic.packets.total },
+  { header: 'bytes', value: flow => flow.traffic.bytes.total },
+  { header: 'policies', value: flow => flow.enforcement.uniquePolicies.join('; ') },
+  { header: 'start', value: flow => flow.timeRange.start },
+  { header: 'end', value: flow => flow.timeRange.end },
+];
+
+/**
+ * Columns for the blocked flows of analyzeBlockedFlows.
+ */
+export const BLOCKED_FLOW_COLUMNS: Column<BlockedFlowAnalysis>[] = [
+  { header: 'source', value: entry => entry.flow.source },
+  { header: 'destination', value: entry => entry.flow.destination },
+  { header: 'protocol', value: entry => entry.flow.protocol },
+  { header: 'port', value: entry => entry.flow.port },
+  { header: 'reporter', value: entry => entry.flow.reporter },
+  { header: 'packets', value: entry => entry.traffic.packetsIn + entry.traffic.packetsOut },
+  { header: 'bytes', value: entry => entry.traffic.bytesIn + entry.traffic.bytesOut },
+  {
+    header: 'blocking_policies',
+    value: entry => entry.blockingPolicies
+      .map(blocking => `${blocking.triggerPolicy.namespace ? `${blocking.triggerPolicy.namespace}/` : ''}${blocking.triggerPolicy.name} (${blocking.blockingReason})`)
+      .join('; '),
+  },
+  { header: 'time_range', value: entry => entry.flow.timeRange },
+];
+
+/**
+ * Columns for kubeconfig contexts.
+ */
+export const CONTEXT_COLUMNS: Column<ContextInfo>[] = [
+  { header: 'current', value: context => context.isCurrent ? '*' : '' },
+  { header: 'name', value: context => context.name },
+  { header: 'cluster', value: context => context.cluster },
+  { header: 'user', value: context => context.user },
+  { header: 'namespace', value: context => context.namespace },
+];
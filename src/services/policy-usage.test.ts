@@ -0,0 +1,87 @@
+import { Policy } from './calico-whisker.js';
+import { ClusterPolicy, buildPolicyUsageReport, toClusterPolicy } from './policy-usage.js';
+import { makeFlow } from './test-fixtures.js';
+
+function hit(overrides: Partial<Policy> = {}): Policy {
+  return {
+    kind: 'CalicoNetworkPolicy', name: 'allow-api', namespace: 'shop', tier: 'default',
+    action: 'Allow', policy_index: 0, rule_index: 0, trigger: null,
+    ...overrides,
+  };
+}
+
+const allowApi: ClusterPolicy = {
+  kind: 'CalicoNetworkPolicy', name: 'allow-api', namespace: 'shop', tier: 'default',
+  ingressRules: [{ action: 'Allow' }, { action: 'Deny' }],
+  egressRules: [{ action: 'Allow' }],
+};
+
+describe('buildPolicyUsageReport', () => {
+  it('counts rule hits per direction and lists unused rules', () => {
+    const report = buildPolicyUsageReport([
+      makeFlow({ reporter: 'Src', policies: { enforced: [hit()], pending: [] } }),
+      makeFlow({ reporter: 'Dst', policies: { enforced: [hit()], pending: [] } }),
+      makeFlow({ reporter: 'Dst', policies: { enforced: [hit()], pending: [] } }),
+    ], [allowApi], 'shop');
+
+    expect(report.policies[0]).toMatchObject({
+      hits: 3,
+      endOfTierHits: 0,
+      rules: [
+        { direction: 'egress', ruleIndex: 0, action: 'Allow', hits: 1 },
+        { direction: 'ingress', ruleIndex: 0, action: 'Allow', hits: 2 },
+        { direction: 'ingress', ruleIndex: 1, action: 'Deny', hits: 0 },
+      ],
+      unusedRules: [{ direction: 'ingress', ruleIndex: 1, action: 'Deny' }],
+    });
+    expect(report.summary).toEqual({ policiesInCluster: 1, policiesWithHits: 1, unusedPolicies: 0, unusedRules: 1 });
+  });
+
+  it('counts end-of-tier hits separately from rules', () => {
+    const report = buildPolicyUsageReport([
+      makeFlow({ reporter: 'Dst', policies: { enforced: [hit({ action: 'Deny', rule_index: -1 })], pending: [] } }),
+    ], [allowApi]);
+    expect(report.policies[0]).toMatchObject({ hits: 1, endOfTierHits: 1 });
+    expect(report.policies[0].rules.every(rule => rule.hits === 0)).toBe(true);
+  });
+
+  it('matches flow names with knp.default. and tier prefixes to cluster names', () => {
+    const knp: ClusterPolicy = { kind: 'NetworkPolicy', name: 'allow-db', namespace: 'shop', tier: 'default', ingressRules: [{ action: 'Allow' }], egressRules: [] };
+    const tiered: ClusterPolicy = { kind: 'CalicoNetworkPolicy', name: 'security.restrict', namespace: 'shop', tier: 'security', ingressRules: [{ action: 'Deny' }], egressRules: [] };
+    const report = buildPolicyUsageReport([
+      makeFlow({ reporter: 'Dst', policies: { enforced: [hit({ kind: 'NetworkPolicy', name: 'knp.default.allow-db' })], pending: [] } }),
+      makeFlow({ reporter: 'Dst', policies: { enforced: [hit({ name: 'restrict', tier: 'security', action: 'Deny' })], pending: [] } }),
+    ], [knp, tiered]);
+
+    expect(report.notInCluster).toEqual([]);
+    expect(report.policies.map(policy => [policy.name, policy.hits, policy.definedInCluster])).toEqual([
+      ['allow-db', 1, true],
+      ['security.restrict', 1, true],
+    ]);
+  });
+
+  it('reports unused policies, policies missing from the cluster and pending hits of known policies', () => {
+    const unused: ClusterPolicy = { ...allowApi, name: 'legacy' };
+    const report = buildPolicyUsageReport([
+      makeFlow({ policies: { enforced: [hit({ name: 'deleted' })], pending: [hit(), hit({ kind: 'StagedNetworkPolicy', name: 'lockdown' })] } }),
+    ], [allowApi, unused]);
+
+    expect(report.unusedPolicies.map(policy => policy.name)).toEqual(['allow-api', 'legacy']);
+    expect(report.notInCluster).toEqual([{ kind: 'CalicoNetworkPolicy', name: 'deleted', namespace: 'shop', hits: 1 }]);
+    expect(report.policies.find(policy => policy.name === 'allow-api')?.pendingHits).toBe(1);
+    expect(report.policies.some(policy => policy.name === 'lockdown')).toBe(false);
+    expect(report.summary).toMatchObject({ policiesInCluster: 2, policiesWithHits: 0, unusedPolicies: 2, unusedRules: 0 });
+  });
+});
+
+describe('toClusterPolicy', () => {
+  it('defaults the tier and treats Kubernetes rules as Allow', () => {
+    expect(toClusterPolicy('NetworkPolicy', {
+      metadata: { name: 'allow-db', namespace: 'shop' },
+      spec: { ingress: [{ from: [] }], egress: [{ action: 'Deny' }] },
+    })).toEqual({
+      kind: 'NetworkPolicy', name: 'allow-db', namespace: 'shop', tier: 'default',
+      ingressRules: [{ action: 'Allow' }], egressRules: [{ action: 'Deny' }],
+    });
+  });
+});
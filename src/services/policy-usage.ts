@@ -0,0 +1,193 @@
+import { FlowLog, Policy } from './calico-whisker.js';
+
+export type RuleDirection = 'ingress' | 'egress';
+
+/**
+ * A policy as defined in the cluster, reduced to what the usage report needs.
+ */
+export interface ClusterPolicy {
+  kind: string;
+  name: string;
+  // Empty for cluster-scoped policies
+  namespace: string;
+  tier: string;
+  ingressRules: { action: string }[];
+  egressRules: { action: string }[];
+}
+
+export interface RuleUsage {
+  direction: RuleDirection;
+  ruleIndex: number;
+  action: string;
+  hits: number;
+}
+
+export interface PolicyUsage {
+  kind: string;
+  name: string;
+  namespace: string;
+  tier: string;
+  hits: number;
+  // Hits that matched no rule and fell through to the end of the policy's tier
+  endOfTierHits: number;
+  // Hits where the policy only matched as a pending (staged) policy
+  pendingHits: number;
+  rules: RuleUsage[];
+  unusedRules: { direction: RuleDirection; ruleIndex: number; action: string }[];
+  definedInCluster: boolean;
+}
+
+export interface PolicyUsageReport {
+  namespace: string;
+  totalFlows: number;
+  policies: PolicyUsage[];
+  unusedPolicies: { kind: string; name: string; namespace: string; tier: string }[];
+  // Policies that matched flows but were not found in the cluster (e.g. since deleted)
+  notInCluster: { kind: string; name: string; namespace: string; hits: number }[];
+  summary: {
+    policiesInCluster: number;
+    policiesWithHits: number;
+    unusedPolicies: number;
+    unusedRules: number;
+  };
+  warnings: string[];
+}
+
+/**
+ * Count enforced policy and rule hits in the flows and compare them with the cluster's policies.
+ * The source reporter evaluates egress rules and the destination reporter ingress rules, so
+ * rule_index is counted per direction. A rule_index below zero means no rule matched.
+ */
+export function buildPolicyUsageReport(logs: FlowLog[], clusterPolicies: ClusterPolicy[], namespace?: string, warnings: string[] = []): PolicyUsageReport {
+  const usage = new Map<string, PolicyUsage>();
+  clusterPolicies.forEach(policy => {
+    usage.set(policyKey(policy.kind, policy.namespace, policy.name, policy.tier), {
+      kind: policy.kind,
+      name: policy.name,
+      namespace: policy.namespace,
+      tier: policy.tier,
+      hits: 0,
+      endOfTierHits: 0,
+      pendingHits: 0,
+      rules: [
+        ...policy.ingressRules.map((rule, index) => ({ direction: 'ingress' as const, ruleIndex: index, action: rule.action, hits: 0 })),
+        ...policy.egressRules.map((rule, index) => ({ direction: 'egress' as const, ruleIndex: index, action: rule.action, hits: 0 })),
+      ],
+      unusedRules: [],
+      definedInCluster: true,
+    });
+  });
+
+  const lookup = (hit: Policy): PolicyUsage => {
+    const key = policyKey(hit.kind, hit.namespace, hit.name, hit.tier);
+    let entry = usage.get(key);
+    if (!entry) {
+      entry = {
+        kind: hit.kind,
+        name: hit.name,
+        namespace: hit.namespace || '',
+        tier: hit.tier,
+        hits: 0,
+        endOfTierHits: 0,
+        pendingHits: 0,
+        rules: [],
+        unusedRules: [],
+        definedInCluster: false,
+      };
+      usage.set(key, entry);
+    }
+    return entry;
+  };
+
+  logs.forEach(log => {
+    const direction: RuleDirection = (log.reporter || '').toLowerCase().startsWith('src') ? 'egress' : 'ingress';
+
+    (log.policies?.enforced || []).forEach(hit => {
+      const entry = lookup(hit);
+      entry.hits++;
+      if (hit.rule_index < 0) {
+        entry.endOfTierHits++;
+        return;
+      }
+      let rule = entry.rules.find(r => r.direction === direction && r.ruleIndex === hit.rule_index);
+      if (!rule) {
+        // A rule the cluster copy no longer has, or a policy that is not in the cluster
+        rule = { direction, ruleIndex: hit.rule_index, action: hit.action, hits: 0 };
+        entry.rules.push(rule);
+      }
+      rule.hits++;
+    });
+
+    (log.policies?.pending || []).forEach(hit => {
+      // Staged policies are not listed from the cluster; only count pending hits of known policies
+      const entry = usage.get(policyKey(hit.kind, hit.namespace, hit.name, hit.tier));
+      if (entry) {
+        entry.pendingHits++;
+      }
+    });
+  });
+
+  const policies = Array.from(usage.values()).filter(entry => entry.definedInCluster || entry.hits > 0);
+  policies.forEach(entry => {
+    entry.rules.sort((a, b) => a.direction.localeCompare(b.direction) || a.ruleIndex - b.ruleIndex);
+    entry.unusedRules = entry.definedInCluster
+      ? entry.rules.filter(rule => rule.hits === 0).map(({ direction, ruleIndex, action }) => ({ direction, ruleIndex, action }))
+      : [];
+  });
+  policies.sort((a, b) => b.hits - a.hits || a.namespace.localeCompare(b.namespace) || a.name.localeCompare(b.name));
+
+  const unusedPolicies = policies
+    .filter(entry => entry.definedInCluster && entry.hits === 0)
+    .map(({ kind, name, namespace: ns, tier }) => ({ kind, name, namespace: ns, tier }));
+  const notInCluster = policies
+    .filter(entry => !entry.definedInCluster)
+    .map(({ kind, name, namespace: ns, hits }) => ({ kind, name, namespace: ns, hits }));
+
+  return {
+    namespace: namespace || 'all',
+    totalFlows: logs.length,
+    policies,
+    unusedPolicies,
+    notInCluster,
+    summary: {
+      policiesInCluster: clusterPolicies.length,
+      policiesWithHits: policies.filter(entry => entry.definedInCluster && entry.hits > 0).length,
+      unusedPolicies: unusedPolicies.length,
+      // Rules of policies with no hits at all are covered by unusedPolicies
+      unusedRules: policies.filter(entry => entry.hits > 0).reduce((count, entry) => count + entry.unusedRules.length, 0),
+    },
+    warnings,
+  };
+}
+
+/**
+ * Reduce a policy object from the Kubernetes API to a ClusterPolicy.
+ */
+export function toClusterPolicy(kind: string, resource: any): ClusterPolicy {
+  const spec = resource?.spec || {};
+  // Kubernetes NetworkPolicy rules have no action: every rule allows
+  const rules = (list: any[] | undefined) => (list || []).map(rule => ({ action: rule?.action || 'Allow' }));
+  return {
+    kind,
+    name: resource?.metadata?.name || '',
+    namespace: resource?.metadata?.namespace || '',
+    tier: spec.tier || 'default',
+    ingressRules: rules(spec.ingress),
+    egressRules: rules(spec.egress),
+  };
+}
+
+/**
+ * Flow logs and the API may name a policy differently: Calico API names of policies outside
+ * the default tier carry a "<tier>." prefix, and Kubernetes policies can be reported with a
+ * "knp.default." prefix.
+ */
+function policyKey(kind: string, namespace: string | undefined, name: string, tier: string | undefined): string {
+  let base = name || '';
+  if (base.startsWith('knp.default.')) {
+    base = base.slice('knp.default.'.length);
+  } else if (tier && base.startsWith(`${tier}.`)) {
+    base = base.slice(tier.length + 1);
+  }
+  return JSON.stringify([kind, namespace || '', base]);
+}
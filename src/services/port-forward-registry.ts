@@ -0,0 +1,167 @@
+import { spawn } from 'child_process';
+import { existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+export interface PortForwardRecord {
+  pid: number;
+  ownerPid: number;
+  localPort: number;
+  namespace: string;
+  serviceName: string;
+  kubeconfigPath: string | null;
+  context: string | null;
+  startedAt: string;
+}
+
+export interface PortHolder {
+  pid: number;
+  command: string;
+}
+
+/**
+ * Tracks the kubectl port-forward processes started by this tool in per-port lock files,
+ * so a busy port is only reclaimed when it is held by one of our own port-forwards.
+ */
+export class PortForwardRegistry {
+  private readonly stateDir: string;
+
+  constructor(stateDir?: string) {
+    this.stateDir = stateDir || process.env.WHISKER_STATE_DIR || join(tmpdir(), 'calico-whisker-mcp');
+  }
+
+  record(record: PortForwardRecord): void {
+    try {
+      mkdirSync(this.stateDir, { recursive: true });
+      writeFileSync(this.lockPath(record.localPort), JSON.stringify(record, null, 2));
+    } catch (error) {
+      console.error(`Warning: Could not record port-forward ownership: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  release(localPort: number, pid?: number): void {
+    const record = this.read(localPort);
+    if (!record || (pid !== undefined && record.pid !== pid)) {
+      return;
+    }
+    try {
+      unlinkSync(this.lockPath(localPort));
+    } catch {
+      // Already removed
+    }
+  }
+
+  read(localPort: number): PortForwardRecord | null {
+    const path = this.lockPath(localPort);
+    if (!existsSync(path)) {
+      return null;
+    }
+    try {
+      return JSON.parse(readFileSync(path, 'utf8')) as PortForwardRecord;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Stop a port-forward on the given port if, and only if, this tool started it and the
+   * server instance that started it is gone. Returns true if a process was stopped.
+   */
+  async reapOwned(localPort: number): Promise<boolean> {
+    const record = this.read(localPort);
+    if (!record) {
+      return false;
+    }
+
+    if (!isProcessAlive(record.pid)) {
+      console.error(`Removing stale port-forward record for port ${localPort} (pid ${record.pid} no longer running)`);
+      this.release(localPort);
+      return false;
+    }
+
+    // A live owner (including this process, e.g. another cluster session) still uses it
+    if (isProcessAlive(record.ownerPid)) {
+      console.error(`Port ${localPort} is held by a port-forward belonging to a running instance (pid ${record.ownerPid})`);
+      return false;
+    }
+
+    // Guard against pid reuse: only signal the process if it is still a kubectl port-forward
+    const command = await getProcessCommand(record.pid);
+    if (!command || !command.includes('kubectl') || !command.includes('port-forward')) {
+      console.error(`Removing port-forward record for port ${localPort}: pid ${record.pid} is no longer a kubectl port-forward`);
+      this.release(localPort);
+      return false;
+    }
+
+    console.error(`Stopping previous port-forward on port ${localPort} (pid ${record.pid})`);
+    try {
+      process.kill(record.pid, 'SIGTERM');
+    } catch (error) {
+      console.error(`Failed to stop process ${record.pid}:`, error);
+      return false;
+    }
+    this.release(localPort);
+    return true;
+  }
+
+  async describePortHolders(localPort: number): Promise<PortHolder[]> {
+    return new Promise((resolve) => {
+      const lsofProcess = spawn('lsof', ['-nP', `-iTCP:${localPort}`, '-sTCP:LISTEN', '-Fpc']);
+      let output = '';
+
+      lsofProcess.stdout?.on('data', (data) => {
+        output += data.toString();
+      });
+
+      lsofProcess.on('close', () => {
+        // -F output is one field per line: p<pid> followed by c<command>
+        const holders: PortHolder[] = [];
+        output.split('\n').forEach(line => {
+          if (line.startsWith('p')) {
+            holders.push({ pid: parseInt(line.slice(1)), command: 'unknown' });
+          } else if (line.startsWith('c') && holders.length > 0) {
+            holders[holders.length - 1].command = line.slice(1);
+          }
+        });
+        resolve(holders);
+      });
+
+      lsofProcess.on('error', () => {
+        resolve([]);
+      });
+    });
+  }
+
+  private lockPath(localPort: number): string {
+    return join(this.stateDir, `port-forward-${localPort}.json`);
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+function getProcessCommand(pid: number): Promise<string | null> {
+  return new Promise((resolve) => {
+    const psProcess = spawn('ps', ['-p', String(pid), '-o', 'args=']);
+    let output = '';
+
+    psProcess.stdout?.on('data', (data) => {
+      output += data.toString();
+    });
+
+    psProcess.on('close', (code) => {
+      resolve(code === 0 ? output.trim() : null);
+    });
+
+    psProcess.on('error', () => {
+      resolve(null);
+    });
+  });
+}
@@ -0,0 +1,54 @@
+import { validateSchema } from './schema-validator.js';
+
+describe('validateSchema', () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      namespace: { type: 'string', minLength: 1 },
+      limit: { type: 'integer', minimum: 1, maximum: 1000, default: 100 },
+      format: { type: 'string', enum: ['yaml', 'json'] },
+      fields: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['namespace'],
+  } as const;
+
+  it('fills in defaults and keeps valid values', () => {
+    expect(validateSchema(schema, { namespace: 'shop' })).toEqual({ namespace: 'shop', limit: 100 });
+    expect(validateSchema(schema, { namespace: 'shop', limit: 5, format: 'json', fields: ['action'] }))
+      .toEqual({ namespace: 'shop', limit: 5, format: 'json', fields: ['action'] });
+  });
+
+  it('treats null as not set', () => {
+    expect(validateSchema(schema, { namespace: 'shop', format: null })).toEqual({ namespace: 'shop', limit: 100 });
+  });
+
+  it('reports a required property sent as null as missing', () => {
+    expect(() => validateSchema(schema, { namespace: null })).toThrow('namespace: is required');
+  });
+
+  it('reports every problem with its path', () => {
+    expect(() => validateSchema(schema, { limit: 0.5, format: 'xml', fields: ['a', 2] })).toThrow([
+      'namespace: is required',
+      'limit: expected an integer, got number 0.5',
+      'format: must be one of "yaml", "json", got "xml"',
+      'fields[1]: expected a string, got number 2',
+    ].join('\n'));
+    expect(() => validateSchema(schema, { namespace: '', limit: 2000 }))
+      .toThrow('namespace: must not be empty\nlimit: must be at most 1000, got 2000');
+  });
+
+  it('rejects unknown arguments, including prototype property names', () => {
+    expect(() => validateSchema(schema, { namespace: 'shop', extra: true }))
+      .toThrow('extra: unknown argument (expected one of namespace, limit, format, fields)');
+    expect(() => validateSchema(schema, { namespace: 'shop', constructor: 'x' })).toThrow('constructor: unknown argument');
+  });
+
+  it('passes additional properties through when allowed', () => {
+    const open = { type: 'object', properties: {}, additionalProperties: true } as const;
+    expect(validateSchema(open, { anything: 1 })).toEqual({ anything: 1 });
+  });
+
+  it('rejects values of the wrong type at the top level', () => {
+    expect(() => validateSchema(schema, [])).toThrow('value: expected an object, got an array');
+  });
+});
@@ -0,0 +1,153 @@
+// A small JSON Schema validator for MCP tool arguments. It covers the subset of JSON Schema
+// the tool input schemas use, and derives TypeScript argument types from the same schemas.
+
+export interface JsonSchema {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+  description?: string;
+  enum?: readonly unknown[];
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  items?: JsonSchema;
+  properties?: { readonly [name: string]: JsonSchema };
+  required?: readonly string[];
+  // Objects that declare properties reject unknown ones unless this is true
+  additionalProperties?: boolean;
+  // Vendor extensions (x-mcp-*) are allowed and ignored
+  [extension: `x-${string}`]: unknown;
+}
+
+/**
+ * The value type described by a schema. Properties with a default are never undefined
+ * after validateSchema, so they are typed as present.
+ */
+export type FromSchema<S> =
+  S extends { enum: readonly (infer E)[] } ? E
+  : S extends { type: 'string' } ? string
+  : S extends { type: 'number' | 'integer' } ? number
+  : S extends { type: 'boolean' } ? boolean
+  : S extends { type: 'array'; items: infer I } ? FromSchema<I>[]
+  : S extends { type: 'object'; properties: infer P } ? ObjectFromSchema<P, PresentKeys<S, P>>
+  : S extends { type: 'object' } ? Record<string, unknown>
+  : unknown;
+
+type PresentKeys<S, P> =
+  | (S extends { required: readonly (infer R)[] } ? R : never)
+  | { [K in keyof P]: P[K] extends { default: unknown } ? K : never }[keyof P];
+
+type ObjectFromSchema<P, Present> =
+  & { [K in keyof P as K extends Present ? K : never]: FromSchema<P[K]> }
+  & { [K in keyof P as K extends Present ? never : K]?: FromSchema<P[K]> };
+
+/**
+ * Check a value against a schema and return a copy with defaults filled in.
+ * Throws an Error listing every problem, each prefixed with the path of the offending value.
+ */
+export function validateSchema<S extends JsonSchema>(schema: S, value: unknown, path = ''): FromSchema<S> {
+  const issues: string[] = [];
+  const result = check(schema, value, path, issues);
+  if (issues.length > 0) {
+    throw new Error(issues.join('\n'));
+  }
+  return result as FromSchema<S>;
+}
+
+function check(schema: JsonSchema, value: unknown, path: string, issues: string[]): unknown {
+  const label = path || 'value';
+
+  if (schema.type && !hasType(value, schema.type)) {
+    issues.push(`${label}: expected ${/^[aeiou]/.test(schema.type) ? 'an' : 'a'} ${schema.type}, got ${describe(value)}`);
+    return value;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push(`${label}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}, got ${JSON.stringify(value)}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push(`${label}: must be at least ${schema.minimum}, got ${value}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push(`${label}: must be at most ${schema.maximum}, got ${value}`);
+    }
+  }
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    issues.push(`${label}: must not be ${value.length === 0 ? 'empty' : `shorter than ${schema.minLength} characters`}`);
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    const items = schema.items;
+    return value.map((item, index) => check(items, item, `${path}[${index}]`, issues));
+  }
+
+  if (schema.type === 'object' && schema.properties) {
+    const properties = schema.properties;
+    const input = value as Record<string, unknown>;
+    const output: Record<string, unknown> = {};
+
+    // null means "not set" (see below), so it does not satisfy a required property
+    (schema.required || []).forEach(name => {
+      if (input[name] === undefined || input[name] === null) {
+        issues.push(`${join(path, name)}: is required`);
+      }
+    });
+
+    Object.keys(input).forEach(name => {
+      // Own keys only, so names like "constructor" are not looked up on the prototype
+      const propertySchema = Object.hasOwn(properties, name) ? properties[name] : undefined;
+      if (!propertySchema) {
+        if (schema.additionalProperties) {
+          output[name] = input[name];
+        } else {
+          issues.push(`${join(path, name)}: unknown argument (expected one of ${Object.keys(properties).join(', ') || 'none'})`);
+        }
+        return;
+      }
+      // Clients commonly send null for "not set"
+      if (input[name] === undefined || input[name] === null) {
+        return;
+      }
+      output[name] = check(propertySchema, input[name], join(path, name), issues);
+    });
+
+    Object.entries(properties).forEach(([name, propertySchema]) => {
+      if (output[name] === undefined && propertySchema.default !== undefined) {
+        output[name] = propertySchema.default;
+      }
+    });
+
+    return output;
+  }
+
+  return value;
+}
+
+function hasType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'object' ? 'an object' : `${typeof value} ${JSON.stringify(value)}`;
+}
+
+function join(path: string, name: string): string {
+  return path ? `${path}.${name}` : name;
+}
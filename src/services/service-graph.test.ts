@@ -0,0 +1,27 @@
+import { buildServiceGraph, renderServiceGraph } from './service-graph.js';
+import { makeFlow } from './test-fixtures.js';
+
+describe('buildServiceGraph', () => {
+  it('takes flows and volume from the same reporter', () => {
+    const graph = buildServiceGraph([
+      makeFlow(),
+      makeFlow({ start_time: '2026-10-18T10:05:00Z' }),
+      makeFlow({ reporter: 'Dst', bytes_in: 2500, bytes_out: 2500, packets_in: 1, packets_out: 1 }),
+    ]);
+    expect(graph.edges).toEqual([
+      { source: 'shop/frontend-*', target: 'shop/api-*', protocol: 'tcp', port: 8080, action: 'Allow', flows: 1, bytes: 5000, packets: 2 },
+    ]);
+  });
+
+  it('collapses workloads into namespaces and keeps external endpoints', () => {
+    const graph = buildServiceGraph([makeFlow(), makeFlow({ dest_name: 'pub', dest_namespace: '-', action: 'Deny' })], { level: 'namespace', hideAllowed: true });
+    expect(graph.nodes.map(node => node.id)).toEqual(['pub', 'shop']);
+    expect(graph.edges.map(edge => `${edge.source}->${edge.target} ${edge.action}`)).toEqual(['shop->pub Deny']);
+  });
+
+  it('renders the adjacency list as JSON', () => {
+    const rendered = JSON.parse(renderServiceGraph(buildServiceGraph([makeFlow()]), 'json'));
+    expect(rendered.adjacency['shop/frontend-*']).toEqual([expect.objectContaining({ target: 'shop/api-*', flows: 1 })]);
+    expect(rendered.adjacency['shop/api-*']).toEqual([]);
+  });
+});
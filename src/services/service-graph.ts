@@ -0,0 +1,187 @@
+import { FlowLog } from './calico-whisker.js';
+
+export type GraphLevel = 'workload' | 'namespace';
+export type GraphFormat = 'dot' | 'mermaid' | 'json';
+
+export const GRAPH_FORMATS: GraphFormat[] = ['dot', 'mermaid', 'json'];
+
+export interface ServiceGraphOptions {
+  // Collapse workloads into their namespaces
+  level?: GraphLevel;
+  // Only keep edges whose traffic was not allowed, e.g. to see what is being blocked
+  hideAllowed?: boolean;
+}
+
+export interface GraphNode {
+  id: string;
+  label: string;
+  // Empty for endpoints outside the cluster's namespaces (e.g. public networks)
+  namespace: string;
+}
+
+export interface GraphEdge {
+  source: string;
+  target: string;
+  protocol: string;
+  port: number;
+  action: string;
+  bytes: number;
+  packets: number;
+  flows: number;
+}
+
+export interface ServiceGraph {
+  level: GraphLevel;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+/**
+ * Build a dependency graph with one edge per source, destination, protocol, port and action.
+ * Both reporters usually report the same traffic, so an edge's flows, bytes and packets are
+ * all taken from the reporter that saw the most bytes rather than summed over both.
+ */
+export function buildServiceGraph(logs: FlowLog[], options: ServiceGraphOptions = {}): ServiceGraph {
+  const level = options.level || 'workload';
+  const nodes = new Map<string, GraphNode>();
+  const edges = new Map<string, GraphEdge & { volumeByReporter: Map<string, EdgeVolume> }>();
+
+  logs.forEach(log => {
+    if (options.hideAllowed && log.action === 'Allow') {
+      return;
+    }
+
+    const source = addNode(nodes, level, log.source_name, log.source_namespace);
+    const target = addNode(nodes, level, log.dest_name, log.dest_namespace);
+    const key = JSON.stringify([source, target, log.protocol, log.dest_port, log.action]);
+    let edge = edges.get(key);
+    if (!edge) {
+      edge = { source, target, protocol: log.protocol, port: log.dest_port, action: log.action, bytes: 0, packets: 0, flows: 0, volumeByReporter: new Map() };
+      edges.set(key, edge);
+    }
+
+    const volume = edge.volumeByReporter.get(log.reporter) || { flows: 0, bytes: 0, packets: 0 };
+    volume.flows++;
+    volume.bytes += (log.bytes_in || 0) + (log.bytes_out || 0);
+    volume.packets += (log.packets_in || 0) + (log.packets_out || 0);
+    edge.volumeByReporter.set(log.reporter, volume);
+  });
+
+  return {
+    level,
+    nodes: Array.from(nodes.values()).sort((a, b) => a.id.localeCompare(b.id)),
+    edges: Array.from(edges.values())
+      .map(({ volumeByReporter, ...edge }) => ({ ...edge, ...busiestReporter(volumeByReporter) }))
+      .sort((a, b) => a.source.localeCompare(b.source) || a.target.localeCompare(b.target) || a.port - b.port || a.action.localeCompare(b.action)),
+  };
+}
+
+type EdgeVolume = Pick<GraphEdge, 'flows' | 'bytes' | 'packets'>;
+
+function busiestReporter(volumeByReporter: Map<string, EdgeVolume>): EdgeVolume {
+  return Array.from(volumeByReporter.values())
+    .reduce((best, volume) => (volume.bytes - best.bytes || volume.packets - best.packets || volume.flows - best.flows) > 0 ? volume : best);
+}
+
+export function renderServiceGraph(graph: ServiceGraph, format: GraphFormat): string {
+  switch (format) {
+    case 'dot':
+      return renderDot(graph);
+    case 'mermaid':
+      return renderMermaid(graph);
+    case 'json':
+      return JSON.stringify(toAdjacency(graph), null, 2);
+    default:
+      throw new Error(`Unsupported graph format "${format}" (expected one of ${GRAPH_FORMATS.join(', ')})`);
+  }
+}
+
+function addNode(nodes: Map<string, GraphNode>, level: GraphLevel, name: string, namespace: string): string {
+  // Whisker uses "-" as the namespace of endpoints outside the cluster
+  const ns = namespace && namespace !== '-' ? namespace : '';
+  const id = level === 'namespace' ? (ns || name) : (ns ? `${ns}/${name}` : name);
+  if (!nodes.has(id)) {
+    nodes.set(id, { id, label: level === 'namespace' ? id : name, namespace: ns });
+  }
+  return id;
+}
+
+function edgeLabel(edge: GraphEdge): string {
+  return `${edge.protocol}/${edge.port} ${edge.action} ${formatBytes(edge.bytes)}`;
+}
+
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KiB', 'MiB', 'GiB', 'TiB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
+
+function renderDot(graph: ServiceGraph): string {
+  const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  const lines = ['digraph services {', '  rankdir=LR;', '  node [shape=box];'];
+
+  if (graph.level === 'workload') {
+    // One cluster box per namespace
+    const byNamespace = new Map<string, GraphNode[]>();
+    graph.nodes.forEach(node => {
+      byNamespace.set(node.namespace, [...(byNamespace.get(node.namespace) || []), node]);
+    });
+    let index = 0;
+    byNamespace.forEach((nodes, namespace) => {
+      const indent = namespace ? '    ' : '  ';
+      if (namespace) {
+        lines.push(`  subgraph cluster_${index++} {`, `    label=${quote(namespace)};`);
+      }
+      nodes.forEach(node => lines.push(`${indent}${quote(node.id)} [label=${quote(node.label)}];`));
+      if (namespace) {
+        lines.push('  }');
+      }
+    });
+  } else {
+    graph.nodes.forEach(node => lines.push(`  ${quote(node.id)};`));
+  }
+
+  graph.edges.forEach(edge => {
+    const style = edge.action === 'Allow' ? '' : ', color=red, fontcolor=red, style=dashed';
+    lines.push(`  ${quote(edge.source)} -> ${quote(edge.target)} [label=${quote(edgeLabel(edge))}${style}];`);
+  });
+  lines.push('}');
+  return lines.join('\n');
+}
+
+function renderMermaid(graph: ServiceGraph): string {
+  // Mermaid ids must be plain identifiers, so nodes get generated ids and quoted labels
+  const ids = new Map(graph.nodes.map((node, index) => [node.id, `n${index}`]));
+  const label = (value: string) => `"${value.replace(/"/g, '#quot;')}"`;
+  const lines = ['flowchart LR'];
+
+  graph.nodes.forEach(node => lines.push(`  ${ids.get(node.id)}[${label(graph.level === 'workload' && node.namespace ? `${node.namespace}/${node.label}` : node.label)}]`));
+  const denied: number[] = [];
+  graph.edges.forEach((edge, index) => {
+    const arrow = edge.action === 'Allow' ? '-->' : '-.->';
+    lines.push(`  ${ids.get(edge.source)} ${arrow}|${label(edgeLabel(edge))}| ${ids.get(edge.target)}`);
+    if (edge.action !== 'Allow') {
+      denied.push(index);
+    }
+  });
+  if (denied.length > 0) {
+    lines.push(`  linkStyle ${denied.join(',')} stroke:red`);
+  }
+  return lines.join('\n');
+}
+
+function toAdjacency(graph: ServiceGraph): { level: GraphLevel; nodes: GraphNode[]; adjacency: Record<string, Omit<GraphEdge, 'source'>[]> } {
+  const adjacency: Record<string, Omit<GraphEdge, 'source'>[]> = {};
+  graph.nodes.forEach(node => {
+    adjacency[node.id] = [];
+  });
+  graph.edges.forEach(({ source, ...edge }) => {
+    adjacency[source].push(edge);
+  });
+  return { level: graph.level, nodes: graph.nodes, adjacency };
+}
@@ -0,0 +1,52 @@
+import { FlowLog, Policy } from './calico-whisker.js';
+import { buildStagedImpactReport } from './staged-impact.js';
+import { makeFlow } from './test-fixtures.js';
+
+const stagedDeny: Policy = {
+  kind: 'StagedNetworkPolicy', name: 'lockdown', namespace: 'shop', tier: 'default',
+  action: 'Deny', policy_index: 0, rule_index: 0, trigger: null,
+};
+const allowWeb: Policy = {
+  kind: 'CalicoNetworkPolicy', name: 'allow-web', namespace: 'shop', tier: 'default',
+  action: 'Allow', policy_index: 0, rule_index: 0, trigger: null,
+};
+
+function flow(overrides: Partial<FlowLog> = {}): FlowLog {
+  return makeFlow({ policies: { enforced: [allowWeb], pending: [stagedDeny] }, ...overrides });
+}
+
+describe('buildStagedImpactReport', () => {
+  it('flags a staged policy that would deny allowed traffic', () => {
+    const report = buildStagedImpactReport([flow()], [], 'shop');
+    expect(report.recommendation).toBe('no-go');
+    expect(report.policies[0]).toMatchObject({
+      name: 'lockdown',
+      flowsMatched: 1,
+      recommendation: 'no-go',
+      newlyDenied: [{ source: 'shop/frontend-*', destination: 'shop/api-*', port: 8080, flows: 1, bytes: 2000 }],
+    });
+  });
+
+  it('counts traffic reported by both ends once, from the busiest reporter', () => {
+    const report = buildStagedImpactReport([
+      flow(),
+      flow({ start_time: '2026-10-18T10:05:00Z', end_time: '2026-10-18T10:10:00Z' }),
+      flow({ reporter: 'Dst', bytes_in: 1500, bytes_out: 1500 }),
+    ]);
+    const [connection] = report.policies[0].newlyDenied;
+    expect(connection).toMatchObject({ flows: 2, packets: 40, bytes: 4000 });
+    expect(report.policies[0].traffic).toEqual({ newlyDeniedPackets: 40, newlyDeniedBytes: 4000, newlyAllowedPackets: 0, newlyAllowedBytes: 0 });
+  });
+
+  it('recommends go when the staged policy keeps outcomes unchanged', () => {
+    const stagedAllow = { ...stagedDeny, action: 'Allow' };
+    const report = buildStagedImpactReport([flow({ policies: { enforced: [allowWeb], pending: [stagedAllow] } })]);
+    expect(report.policies[0]).toMatchObject({ recommendation: 'go', newlyDenied: [], newlyAllowed: [] });
+  });
+
+  it('reports staged policies that no flow reached', () => {
+    const report = buildStagedImpactReport([], [{ kind: 'StagedNetworkPolicy', name: 'unused', namespace: 'shop', tier: 'default' }]);
+    expect(report.policies).toEqual([expect.objectContaining({ name: 'unused', flowsMatched: 0, recommendation: 'insufficient-data' })]);
+    expect(report.recommendation).toBe('insufficient-data');
+  });
+});
@@ -0,0 +1,229 @@
+import { FlowLog, Policy } from './calico-whisker.js';
+import { terminalPolicy } from './connection-trace.js';
+
+export type StagedPolicyRecommendation = 'go' | 'no-go' | 'insufficient-data';
+
+/**
+ * A connection whose outcome would change. Both reporters (Src and Dst) usually report the same
+ * traffic, so the flow count and volumes are those of the reporter that saw the most bytes.
+ */
+export interface AffectedConnection {
+  source: string;
+  destination: string;
+  port: number;
+  protocol: string;
+  flows: number;
+  packets: number;
+  bytes: number;
+}
+
+export interface StagedPolicyImpact {
+  kind: string;
+  name: string;
+  namespace: string;
+  tier: string;
+  // Flows whose pending evaluation hit the policy
+  flowsMatched: number;
+  // Connections allowed today that the policy would deny
+  newlyDenied: AffectedConnection[];
+  // Connections denied today that the policy would allow
+  newlyAllowed: AffectedConnection[];
+  traffic: {
+    newlyDeniedPackets: number;
+    newlyDeniedBytes: number;
+    newlyAllowedPackets: number;
+    newlyAllowedBytes: number;
+  };
+  recommendation: StagedPolicyRecommendation;
+  reason: string;
+}
+
+// A staged policy defined in the cluster, so policies that no flow reached are reported too
+export interface StagedPolicyRef {
+  kind: string;
+  name: string;
+  namespace: string;
+  tier: string;
+}
+
+export interface StagedImpactReport {
+  namespace: string;
+  totalFlows: number;
+  recommendation: StagedPolicyRecommendation;
+  summary: string;
+  policies: StagedPolicyImpact[];
+  warnings: string[];
+}
+
+/**
+ * Simulate promoting staged policies by comparing each flow's enforced action with the outcome
+ * of its pending evaluation (which includes staged policies). A changed outcome is attributed to
+ * the staged policy that decided the pending evaluation, directly or as its trigger.
+ */
+export function buildStagedImpactReport(logs: FlowLog[], stagedPolicies: StagedPolicyRef[] = [], namespace?: string, policyName?: string, warnings: string[] = []): StagedImpactReport {
+  const impacts = new Map<string, { impact: StagedPolicyImpact; denied: Map<string, ConnectionBuilder>; allowed: Map<string, ConnectionBuilder> }>();
+
+  const entryFor = (policy: StagedPolicyRef) => {
+    const key = policyKey(policy);
+    let entry = impacts.get(key);
+    if (!entry) {
+      entry = {
+        impact: {
+          kind: policy.kind,
+          name: baseName(policy),
+          namespace: policy.namespace || '',
+          tier: policy.tier,
+          flowsMatched: 0,
+          newlyDenied: [],
+          newlyAllowed: [],
+          traffic: { newlyDeniedPackets: 0, newlyDeniedBytes: 0, newlyAllowedPackets: 0, newlyAllowedBytes: 0 },
+          recommendation: 'insufficient-data',
+          reason: '',
+        },
+        denied: new Map(),
+        allowed: new Map(),
+      };
+      impacts.set(key, entry);
+    }
+    return entry;
+  };
+
+  stagedPolicies.filter(policy => matchesName(policy, policyName)).forEach(policy => entryFor(policy));
+
+  logs.forEach(log => {
+    const pending = log.policies?.pending || [];
+    const matched = new Set<string>();
+    pending.flatMap(policy => policy.trigger ? [policy, policy.trigger] : [policy]).forEach(policy => {
+      // A policy can appear more than once in a flow's pending list; count the flow once
+      if (isStaged(policy) && matchesName(policy, policyName) && !matched.has(policyKey(policy))) {
+        matched.add(policyKey(policy));
+        entryFor(policy).impact.flowsMatched++;
+      }
+    });
+
+    const decidingPolicy = terminalPolicy(pending);
+    const pendingAction = decidingPolicy?.action || log.action;
+    if (pendingAction === log.action || !decidingPolicy) {
+      return;
+    }
+    const staged = isStaged(decidingPolicy) ? decidingPolicy : decidingPolicy.trigger && isStaged(decidingPolicy.trigger) ? decidingPolicy.trigger : null;
+    if (!staged || !matchesName(staged, policyName)) {
+      return;
+    }
+
+    const entry = entryFor(staged);
+    addConnection(pendingAction === 'Deny' ? entry.denied : entry.allowed, log);
+  });
+
+  const policies = Array.from(impacts.values()).map(({ impact, denied, allowed }) => {
+    const byVolume = (a: AffectedConnection, b: AffectedConnection) => b.bytes - a.bytes || b.flows - a.flows;
+    impact.newlyDenied = finishConnections(denied).sort(byVolume);
+    impact.newlyAllowed = finishConnections(allowed).sort(byVolume);
+    impact.traffic = {
+      newlyDeniedPackets: sum(impact.newlyDenied, connection => connection.packets),
+      newlyDeniedBytes: sum(impact.newlyDenied, connection => connection.bytes),
+      newlyAllowedPackets: sum(impact.newlyAllowed, connection => connection.packets),
+      newlyAllowedBytes: sum(impact.newlyAllowed, connection => connection.bytes),
+    };
+    if (impact.newlyDenied.length > 0) {
+      impact.recommendation = 'no-go';
+      impact.reason = `Would deny ${impact.newlyDenied.length} connection(s) that are allowed today`;
+    } else if (impact.flowsMatched > 0) {
+      impact.recommendation = 'go';
+      impact.reason = impact.newlyAllowed.length > 0
+        ? `Denies no traffic that is allowed today and would allow ${impact.newlyAllowed.length} connection(s) that are denied today`
+        : 'Matches traffic without changing its outcome';
+    } else {
+      impact.recommendation = 'insufficient-data';
+      impact.reason = 'No flows in the window reached this policy; widen the time range or generate representative traffic';
+    }
+    return impact;
+  });
+  policies.sort((a, b) => recommendationRank(a.recommendation) - recommendationRank(b.recommendation)
+    || b.traffic.newlyDeniedBytes - a.traffic.newlyDeniedBytes
+    || a.name.localeCompare(b.name));
+
+  const noGo = policies.filter(policy => policy.recommendation === 'no-go');
+  const go = policies.filter(policy => policy.recommendation === 'go');
+  let recommendation: StagedPolicyRecommendation;
+  let summary: string;
+  if (policies.length === 0) {
+    recommendation = 'insufficient-data';
+    summary = `No flows matched ${policyName ? `staged policy "${policyName}"` : 'any staged policy'}`;
+  } else if (noGo.length > 0) {
+    recommendation = 'no-go';
+    summary = `${noGo.length} of ${policies.length} staged polic${policies.length === 1 ? 'y' : 'ies'} would deny traffic that is allowed today: ${noGo.map(policy => policy.name).join(', ')}`;
+  } else if (go.length === policies.length) {
+    recommendation = 'go';
+    summary = `None of the ${policies.length} staged polic${policies.length === 1 ? 'y' : 'ies'} would deny traffic that is allowed today`;
+  } else {
+    recommendation = 'insufficient-data';
+    summary = `No staged policy would deny current traffic, but ${policies.length - go.length} matched no flows in the window`;
+  }
+
+  return {
+    namespace: namespace || 'all',
+    totalFlows: logs.length,
+    recommendation,
+    summary,
+    policies,
+    warnings,
+  };
+}
+
+function policyKey(policy: StagedPolicyRef): string {
+  return JSON.stringify([policy.kind, policy.namespace || '', baseName(policy)]);
+}
+
+// Calico API names of policies outside the default tier carry a "<tier>." prefix; flow logs may not
+function baseName(policy: StagedPolicyRef): string {
+  return policy.tier && policy.name.startsWith(`${policy.tier}.`) ? policy.name.slice(policy.tier.length + 1) : policy.name;
+}
+
+function isStaged(policy: Policy): boolean {
+  return (policy.kind || '').startsWith('Staged');
+}
+
+function matchesName(policy: StagedPolicyRef, name?: string): boolean {
+  return !name || baseName(policy) === name || `${policy.tier}.${baseName(policy)}` === name;
+}
+
+type ConnectionVolume = Pick<AffectedConnection, 'flows' | 'packets' | 'bytes'>;
+
+interface ConnectionBuilder {
+  connection: AffectedConnection;
+  byReporter: Map<string, ConnectionVolume>;
+}
+
+function addConnection(connections: Map<string, ConnectionBuilder>, log: FlowLog): void {
+  const source = `${log.source_namespace ? `${log.source_namespace}/` : ''}${log.source_name}`;
+  const destination = `${log.dest_namespace ? `${log.dest_namespace}/` : ''}${log.dest_name}`;
+  const key = JSON.stringify([source, destination, log.dest_port, log.protocol]);
+  const builder = connections.get(key) || {
+    connection: { source, destination, port: log.dest_port, protocol: log.protocol, flows: 0, packets: 0, bytes: 0 },
+    byReporter: new Map(),
+  };
+  const volume = builder.byReporter.get(log.reporter) || { flows: 0, packets: 0, bytes: 0 };
+  volume.flows++;
+  volume.packets += (log.packets_in || 0) + (log.packets_out || 0);
+  volume.bytes += (log.bytes_in || 0) + (log.bytes_out || 0);
+  builder.byReporter.set(log.reporter, volume);
+  connections.set(key, builder);
+}
+
+// Take each connection's counts from its busiest reporter, as flow-diff's aggregateConnections does
+function finishConnections(connections: Map<string, ConnectionBuilder>): AffectedConnection[] {
+  return Array.from(connections.values()).map(({ connection, byReporter }) => {
+    const busiest = Array.from(byReporter.values())
+      .reduce((best, volume) => (volume.bytes - best.bytes || volume.packets - best.packets || volume.flows - best.flows) > 0 ? volume : best);
+    return { ...connection, ...busiest };
+  });
+}
+
+function sum<T>(items: T[], value: (item: T) => number): number {
+  return items.reduce((total, item) => total + value(item), 0);
+}
+
+function recommendationRank(recommendation: StagedPolicyRecommendation): number {
+  return recommendation === 'no-go' ? 0 : recommendation === 'go' ? 1 : 2;
+}
@@ -0,0 +1,27 @@
+import { FlowLog } from './calico-whisker.js';
+
+/**
+ * A Src-reported Allow flow from shop/frontend-* to shop/api-*:8080/tcp, for tests.
+ */
+export function makeFlow(overrides: Partial<FlowLog> = {}): FlowLog {
+  return {
+    start_time: '2026-10-18T10:00:00Z',
+    end_time: '2026-10-18T10:05:00Z',
+    action: 'Allow',
+    source_name: 'frontend-*',
+    source_namespace: 'shop',
+    source_labels: 'app=frontend',
+    dest_name: 'api-*',
+    dest_namespace: 'shop',
+    dest_labels: 'app=api',
+    protocol: 'tcp',
+    dest_port: 8080,
+    reporter: 'Src',
+    policies: { enforced: [], pending: [] },
+    packets_in: 10,
+    packets_out: 10,
+    bytes_in: 1000,
+    bytes_out: 1000,
+    ...overrides,
+  };
+}
@@ -0,0 +1,660 @@
+import { FromSchema, JsonSchema } from './schema-validator.js';
+import { FLOW_ACTIONS } from './whisker-query.js';
+import { DEFAULT_PAGE_LIMIT, FLOW_LOG_FIELDS, MAX_PAGE_LIMIT } from './flow-pagination.js';
+import { GRAPH_FORMATS } from './service-graph.js';
+
+// Input schemas of the MCP tools. They are listed to clients as-is, validate tool arguments
+// before a handler runs, and give the handlers their argument types.
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema & { type: 'object' };
+}
+
+const CLUSTER_PROPERTY = {
+  type: 'string',
+  description: 'Cluster session (kube context name) to query, as listed by list_sessions. Defaults to the most recently connected cluster',
+} as const;
+
+const START_TIME_PROPERTY = {
+  type: 'string',
+  description: 'Only include flows starting at or after this time (ISO 8601 format). Reaches back into the local flow history beyond what Whisker still holds',
+} as const;
+
+const END_TIME_PROPERTY = {
+  type: 'string',
+  description: 'Only include flows ending at or before this time (ISO 8601 format)',
+} as const;
+
+// Every tool that returns a list of flows pages it, so responses stay within client context limits
+const PAGE_PROPERTIES = {
+  limit: {
+    type: 'integer',
+    description: `Maximum number of flows in the response (1-${MAX_PAGE_LIMIT}). The response reports the total and a nextCursor when there are more`,
+    minimum: 1,
+    maximum: MAX_PAGE_LIMIT,
+    default: DEFAULT_PAGE_LIMIT,
+  },
+  cursor: {
+    type: 'string',
+    description: 'nextCursor from a previous response with the same arguments, to fetch the following page',
+  },
+  fields: {
+    type: 'array',
+    description: 'Only return these flow properties, e.g. ["source_name", "dest_name", "dest_port", "action"]',
+    items: {
+      type: 'string',
+      enum: FLOW_LOG_FIELDS,
+    },
+  },
+} as const;
+
+export const TOOL_DEFINITIONS = [
+  {
+    name: 'connect_to_cluster',
+    description: 'Connect to a Kubernetes cluster and set up port-forwarding to Calico Whisker. Each context gets its own session, so several clusters can be connected at once',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        context: {
+          type: 'string',
+          description: 'Kubernetes context name (optional if kubeconfig is provided)',
+        },
+        kubeconfig: {
+          type: 'string',
+          description: 'Path to kubeconfig file (optional if context is provided)',
+        },
+        whiskerNamespace: {
+          type: 'string',
+          description: 'Namespace of the Whisker service (default: WHISKER_NAMESPACE or calico-system)',
+        },
+        whiskerService: {
+          type: 'string',
+          description: 'Name of the Whisker service (default: WHISKER_SERVICE or whisker)',
+        },
+        whiskerServicePort: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 65535,
+          description: 'Port of the Whisker service (default: WHISKER_SERVICE_PORT or 8081)',
+        },
+        localPort: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 65535,
+          description: 'Local port for the port-forward (default: WHISKER_LOCAL_PORT or 8081; a free port is chosen automatically if the default is busy)',
+        },
+        transport: {
+          type: 'string',
+          description: 'How to reach Whisker: kubectl port-forward, the Kubernetes API service proxy, or auto (port-forward when kubectl is installed, otherwise the API proxy). Default: WHISKER_TRANSPORT or auto',
+          enum: ['auto', 'port-forward', 'api-proxy'],
+        },
+      },
+    },
+  },
+  {
+    name: 'list_sessions',
+    description: 'List connected cluster sessions with their context, kubeconfig and Whisker connection state',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'get_connection_status',
+    description: 'Get the state of the port-forward to Calico Whisker (connected, reconnecting, failed), its local port, the latest health check and the local flow history collector',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        cluster: CLUSTER_PROPERTY,
+      },
+    },
+  },
+  {
+    name: 'get_flow_logs',
+    description: 'Retrieve flow logs from Calico Whisker with optional filtering',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        cluster: CLUSTER_PROPERTY,
+        filter: {
+          type: 'string',
+          description: 'JQ filter expression to apply to the logs',
+        },
+        where: {
+          type: 'object',
+          description: 'Structured filter, safer than a JQ string. A condition is {"field", "op", "value"} with op one of eq, ne, gt, gte, lt, lte, contains, startsWith, endsWith, in, exists; combine with {"and": [...]}, {"or": [...]}, {"not": {...}}, or match policies with {"anyPolicy": "enforced"|"pending", "where": {...}}',
+        },
+        startTime: START_TIME_PROPERTY,
+        endTime: END_TIME_PROPERTY,
+        namespace: {
+          type: 'string',
+          description: 'Only flows with this namespace as source or destination',
+        },
+        action: {
+          type: 'string',
+          description: 'Only flows with this action',
+          enum: FLOW_ACTIONS,
+        },
+        sortBy: {
+          type: 'string',
+          description: 'Sort flows by start time or by total bytes/packets',
+          enum: ['time', 'bytes', 'packets'],
+        },
+        sortOrder: {
+          type: 'string',
+          description: 'Sort order (default: desc)',
+          enum: ['asc', 'desc'],
+        },
+        pageSize: {
+          type: 'integer',
+          minimum: 1,
+          description: 'Maximum number of flows to fetch, before filter/where are applied. Filters, sorting and the page size are sent to Whisker where it supports them; use limit to page the response',
+        },
+        ...PAGE_PROPERTIES,
+      },
+    },
+  },
+  {
+    name: 'watch_flows',
+    description: 'Start watching for new flows. Matching flows are pushed to the client as notifications/message log notifications (logger "watch_flows") until stop_watch_flows is called',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        cluster: CLUSTER_PROPERTY,
+        filter: {
+          type: 'string',
+          description: 'JQ filter expression new flows must match',
+        },
+        where: {
+          type: 'object',
+          description: 'Structured filter new flows must match, with the same syntax as get_flow_logs',
+        },
+        intervalSeconds: {
+          type: 'number',
+          description: 'Seconds between polls of Whisker',
+          minimum: 1,
+          default: 5,
+        },
+      },
+    },
+  },
+  {
+    name: 'stop_watch_flows',
+    description: 'Stop a flow watch started with watch_flows, or all watches when no watchId is given',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        watchId: {
+          type: 'string',
+          description: 'Watch ID returned by watch_flows',
+        },
+      },
+    },
+  },
+  {
+    name: 'analyze_blocked_flows',
+    description: 'PREFERRED TOOL: Analyze denied/blocked/rejected flows and identify root cause policies. Use this tool when users ask to "analyze deny flows", "analyze blocked flows", "investigate denied traffic", "find blocking policies", or similar requests. Provides detailed policy YAML, root cause analysis, and actionable recommendations.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        cluster: CLUSTER_PROPERTY,
+        startTime: START_TIME_PROPERTY,
+        endTime: END_TIME_PROPERTY,
+        namespace: {
+          type: 'string',
+          description: 'Filter blocked flows by namespace (optional)',
+        },
+      },
+      'x-mcp-priority': 'high',
+      'x-mcp-keywords': ['analyze', 'blocked', 'denied', 'investigate', 'troubleshoot', 'root cause'],
+      'x-mcp-use-case': 'blocked-flow-analysis'
+    },
+  },
+  {
+    name: 'get_denied_staged_policies',
+    description: 'Get flow logs matching staged network policies that would be denied if enforced',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        cluster: CLUSTER_PROPERTY,
+        startTime: START_TIME_PROPERTY,
+        endTime: END_TIME_PROPERTY,
+        namespace: {
+          type: 'string',
+          description: 'Filter by namespace (optional)',
+        },
+        sourceName: {
+          type: 'string',
+          description: 'Filter by source name (optional)',
+        },
+        destName: {
+          type: 'string',
+          description: 'Filter by destination name (optional)',
+        },
+        ...PAGE_PROPERTIES,
+      },
+    },
+  },
+  // {
+  //   name: 'get_policy_violations',
+  //   description: 'Get raw flow log data that violate network policies. For detailed analysis of blocked flows, use analyze_blocked_flows instead.',
+  //   inputSchema: {
+  //     type: 'object',
+  //     properties: {
+  //       action: {
+  //         type: 'string',
+  //         description: 'Filter by action (Allow/Deny)',
+  //         enum: ['Allow', 'Deny'],
+  //       },
+  //       namespace: {
+  //         type: 'string',
+  //         description: 'Filter by namespace',
+  //       },
+  //       protocol: {
+  //         type: 'string',
+  //         description: 'Filter by protocol (tcp/udp)',
+  //       },
+  //     },
+  //   },
+  // },
+  {
+    name: 'get_high_traffic_flows',
+    description: 'Get flow logs with high traffic volume',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        cluster: CLUSTER_PROPERTY,
+        startTime: START_TIME_PROPERTY,
+        endTime: END_TIME_PROPERTY,
+        minPackets: {
+          type: 'number',
+          description: 'Minimum number of packets to filter by',
+          minimum: 0,
+          default: 1000,
+        },
+        minBytes: {
+          type: 'number',
+          description: 'Minimum number of bytes to filter by',
+          minimum: 0,
+          default: 100000,
+        },
+        ...PAGE_PROPERTIES,
+      },
+    },
+  },
+  {
+    name: 'get_namespace_flows',
+    description: 'Get flow logs for a specific namespace (includes flows where namespace is either source or destination)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        cluster: CLUSTER_PROPERTY,
+        startTime: START_TIME_PROPERTY,
+        endTime: END_TIME_PROPERTY,
+        namespace: {
+          type: 'string',
+          description: 'The namespace to filter by',
+        },
+        ...PAGE_PROPERTIES,
+      },
+      required: ['namespace'],
+    },
+  },
+  {
+    name: 'trace_connection',
+    description: 'Check whether a source workload can reach a destination workload (optionally on a port) and why: returns the matching flows from both reporters, the enforced and pending policies they hit in evaluation order with tier and rule indexes, and a verdict',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        cluster: CLUSTER_PROPERTY,
+        startTime: START_TIME_PROPERTY,
+        endTime: END_TIME_PROPERTY,
+        source: {
+          type: 'string',
+          description: 'Source workload name or name prefix (e.g. "frontend" matches "frontend-7d4f9c-*")',
+        },
+        sourceLabels: {
+          type: 'string',
+          description: 'Source workload labels, e.g. "app=frontend,tier=web"',
+        },
+        sourceNamespace: {
+          type: 'string',
+          description: 'Namespace of the source workload (default: namespace)',
+        },
+        destination: {
+          type: 'string',
+          description: 'Destination workload name or name prefix',
+        },
+        destLabels: {
+          type: 'string',
+          description: 'Destination workload labels, e.g. "app=database"',
+        },
+        destNamespace: {
+          type: 'string',
+          description: 'Namespace of the destination workload (default: namespace)',
+        },
+        namespace: {
+          type: 'string',
+          description: 'Namespace of both workloads, when they share one',
+        },
+        port: {
+          type: 'integer',
+          description: 'Destination port',
+          minimum: 1,
+          maximum: 65535,
+        },
+        protocol: {
+          type: 'string',
+          description: 'Protocol, e.g. tcp or udp',
+        },
+      },
+    },
+  },
+  {
+    name: 'policy_usage_report',
+    description: 'Count hits per policy and per rule across the flow window and compare them with the policies defined in the cluster, flagging policies and rules that never matched (candidates for cleanup)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        cluster: CLUSTER_PROPERTY,
+        startTime: START_TIME_PROPERTY,
+        endTime: END_TIME_PROPERTY,
+        namespace: {
+          type: 'string',
+          description: 'Only report policies of this namespace and the flows touching it (GlobalNetworkPolicies are only included without a namespace)',
+        },
+      },
+    },
+  },
+  {
+    name: 'staged_policy_impact',
+    description: 'Before promoting staged policies: report per staged policy which source→destination:port connections would newly be denied, which currently denied ones it would allow, the traffic volume affected, and a go/no-go recommendation',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        cluster: CLUSTER_PROPERTY,
+        startTime: START_TIME_PROPERTY,
+        endTime: END_TIME_PROPERTY,
+        namespace: {
+          type: 'string',
+          description: 'Only consider flows touching this namespace and the staged policies in it',
+        },
+        policy: {
+          type: 'string',
+          description: 'Only report this staged policy (name, with or without the tier prefix)',
+        },
+      },
+    },
+  },
+  {
+    name: 'get_service_graph',
+    description: 'Build a service dependency graph from flows, with edges annotated with protocol, port, action and bytes, rendered as Graphviz DOT, Mermaid or JSON adjacency',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        cluster: CLUSTER_PROPERTY,
+        startTime: START_TIME_PROPERTY,
+        endTime: END_TIME_PROPERTY,
+        namespace: {
+          type: 'string',
+          description: 'Only include flows with this namespace as source or destination',
+        },
+        format: {
+          type: 'string',
+          description: 'Output format: Graphviz DOT, Mermaid flowchart, or JSON adjacency list',
+          enum: GRAPH_FORMATS,
+          default: 'mermaid',
+        },
+        level: {
+          type: 'string',
+          description: 'Graph nodes: individual workloads, or namespaces with workloads collapsed into them',
+          enum: ['workload', 'namespace'],
+          default: 'workload',
+        },
+        hideAllowed: {
+          type: 'boolean',
+          description: 'Only show edges of denied traffic',
+          default: false,
+        },
+      },
+    },
+  },
+  {
+    name: 'diff_flows',
+    description: 'Compare the traffic of two time windows (e.g. before and after a deploy): new connections, connections that disappeared, action changes such as Allow→Deny, and large traffic volume changes',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        cluster: CLUSTER_PROPERTY,
+        beforeSnapshot: {
+          type: 'string',
+          description: 'Read the baseline flows from this saved snapshot (see save_snapshot) instead of the cluster',
+        },
+        beforeStartTime: {
+          type: 'string',
+          description: 'Start of the baseline window (ISO 8601 format; default: as far back as flows are available)',
+        },
+        beforeEndTime: {
+          type: 'string',
+          description: 'End of the baseline window (ISO 8601 format), e.g. the deploy time. Required unless beforeSnapshot is given',
+        },
+        afterSnapshot: {
+          type: 'string',
+          description: 'Read the flows to compare from this saved snapshot instead of the cluster',
+        },
+        afterStartTime: {
+          type: 'string',
+          description: 'Start of the window to compare (ISO 8601 format), e.g. the deploy time. Required unless afterSnapshot is given',
+        },
+        afterEndTime: {
+          type: 'string',
+          description: 'End of the window to compare (ISO 8601 format; default: now)',
+        },
+        namespace: {
+          type: 'string',
+          description: 'Only compare flows with this namespace as source or destination',
+        },
+        volumeChangeRatio: {
+          type: 'number',
+          description: 'Report volume changes where bytes grew or shrank by at least this factor (1 = doubled or halved)',
+          minimum: 0,
+          default: 1,
+        },
+        minBytesDelta: {
+          type: 'integer',
+          description: 'Ignore volume changes smaller than this many bytes',
+          minimum: 0,
+          default: 10240,
+        },
+        maxResults: {
+          type: 'integer',
+          description: 'Maximum entries per category; the summary has the full counts',
+          minimum: 1,
+          default: 50,
+        },
+      },
+    },
+  },
+  {
+    name: 'save_snapshot',
+    description: 'Save the current flows with the cluster they came from to a JSON file, for post-mortems and offline analysis with load_snapshot',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        cluster: CLUSTER_PROPERTY,
+        path: {
+          type: 'string',
+          description: 'File to write, relative to WHISKER_SNAPSHOT_DIR (default: ~/.calico-whisker-mcp/snapshots). Absolute paths and paths leaving that directory are rejected',
+          minLength: 1,
+        },
+        startTime: START_TIME_PROPERTY,
+        endTime: END_TIME_PROPERTY,
+        namespace: {
+          type: 'string',
+          description: 'Only save flows with this namespace as source or destination',
+        },
+        overwrite: {
+          type: 'boolean',
+          description: 'Replace the file if it already exists (default: false)',
+          default: false,
+        },
+      },
+      required: ['path'],
+    },
+  },
+  {
+    name: 'load_snapshot',
+    description: 'Put a cluster session in offline mode: every flow tool reads the saved snapshot instead of Whisker, until connect_to_cluster is called again',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        cluster: CLUSTER_PROPERTY,
+        path: {
+          type: 'string',
+          description: 'Snapshot file written by save_snapshot, or a saved Whisker flow response, relative to WHISKER_SNAPSHOT_DIR',
+          minLength: 1,
+        },
+      },
+      required: ['path'],
+    },
+  },
+  {
+    name: 'import_flow_logs',
+    description: 'Import Calico flow logs written to files by Felix (flows.log) and put a cluster session in offline mode over them, so every flow tool analyses the exported logs',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        cluster: CLUSTER_PROPERTY,
+        path: {
+          type: 'string',
+          description: 'Felix flow log file (JSON lines, optionally gzipped) or directory of flows.log* files, relative to WHISKER_IMPORT_DIR ("." imports the directory itself)',
+          minLength: 1,
+        },
+        savePath: {
+          type: 'string',
+          description: 'Also save the imported flows as a snapshot for load_snapshot and diff_flows, relative to WHISKER_SNAPSHOT_DIR',
+        },
+        overwrite: {
+          type: 'boolean',
+          description: 'Replace the savePath file if it already exists (default: false)',
+          default: false,
+        },
+      },
+      required: ['path'],
+    },
+  },
+  {
+    name: 'generate_network_policies',
+    description: 'Generate ready-to-apply Calico NetworkPolicy resources for a namespace from observed flow logs',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        cluster: CLUSTER_PROPERTY,
+        startTime: START_TIME_PROPERTY,
+        endTime: END_TIME_PROPERTY,
+        namespace: {
+          type: 'string',
+          description: 'The namespace to analyze flows for',
+        },
+        selectorKey: {
+          type: 'string',
+          description: 'The label key to use for workload grouping (e.g., "app", "service", "component")',
+        },
+        format: {
+          type: 'string',
+          description: 'Output format: multi-document YAML ready for kubectl apply, or JSON (default: yaml)',
+          enum: ['yaml', 'json'],
+          default: 'yaml',
+        },
+      },
+      required: ['namespace', 'selectorKey'],
+    },
+  },
+  {
+    name: 'get_kubeconfig_contexts',
+    description: 'Get all available contexts from kubeconfig file',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        kubeconfigPath: {
+          type: 'string',
+          description: 'Path to kubeconfig file (optional, defaults to ~/.kube/config)',
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'get_current_context',
+    description: 'Get information about the current Kubernetes context',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        kubeconfigPath: {
+          type: 'string',
+          description: 'Path to kubeconfig file (optional, defaults to ~/.kube/config)',
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'check_kubeconfig',
+    description: 'Check if kubeconfig file exists and is accessible',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        kubeconfigPath: {
+          type: 'string',
+          description: 'Path to kubeconfig file (optional, defaults to ~/.kube/config)',
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'diagnose_connection',
+    description: 'Diagnose Kubernetes and Calico Whisker connectivity issues',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        cluster: CLUSTER_PROPERTY,
+        kubeconfigPath: {
+          type: 'string',
+          description: 'Path to kubeconfig file (optional)',
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'get_namespace_flow_summary',
+    description: 'Get an aggregated CSV summary of flow logs for a specific namespace',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        cluster: CLUSTER_PROPERTY,
+        startTime: START_TIME_PROPERTY,
+        endTime: END_TIME_PROPERTY,
+        namespace: {
+          type: 'string',
+          description: 'The namespace to get flow summary for',
+        },
+      },
+      required: ['namespace'],
+    },
+  },
+] as const satisfies readonly ToolDefinition[];
+
+export type ToolName = typeof TOOL_DEFINITIONS[number]['name'];
+
+/**
+ * Arguments of a tool after validation, with defaults applied.
+ */
+export type ToolArgs<N extends ToolName> = FromSchema<Extract<typeof TOOL_DEFINITIONS[number], { name: N }>['inputSchema']>;
+
+export function findToolDefinition(name: string): ToolDefinition | undefined {
+  return TOOL_DEFINITIONS.find(tool => tool.name === name);
+}
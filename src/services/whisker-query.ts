@@ -0,0 +1,177 @@
+import { FlowLog } from './calico-whisker.js';
+import { FlowTimeRange, inTimeRange } from './flow-store.js';
+
+export type FlowSortField = 'time' | 'bytes' | 'packets';
+export type FlowSortOrder = 'asc' | 'desc';
+
+/**
+ * Criteria for fetching flows. Whatever the Whisker backend supports is sent as query
+ * parameters; the rest is applied to the response.
+ */
+export interface FlowQuery extends FlowTimeRange {
+  // Flows with this namespace as source or destination
+  namespace?: string;
+  sourceNamespace?: string;
+  destNamespace?: string;
+  action?: string;
+  sortBy?: FlowSortField;
+  sortOrder?: FlowSortOrder;
+  // Maximum number of flows to return
+  pageSize?: number;
+}
+
+export type FlowQueryCriterion = 'startTime' | 'endTime' | 'namespace' | 'sourceNamespace' | 'destNamespace' | 'action' | 'sort' | 'pageSize';
+
+export const ALL_FLOW_QUERY_CRITERIA: FlowQueryCriterion[] = ['startTime', 'endTime', 'namespace', 'sourceNamespace', 'destNamespace', 'action', 'sort', 'pageSize'];
+
+export interface WhiskerQueryPlan {
+  params: Record<string, string>;
+  // Criteria the backend applies, and those left to applyFlowQuery
+  pushedDown: FlowQueryCriterion[];
+  clientSide: FlowQueryCriterion[];
+}
+
+export const FLOW_ACTIONS = ['Allow', 'Deny', 'Pass'];
+
+/**
+ * Split a query into whisker-backend parameters and client-side criteria.
+ *
+ * The backend filters on start time (startTimeGte/startTimeLt, unix seconds), exact source
+ * and destination namespaces and actions (the `filters` JSON), sorts by time (newest first)
+ * and limits results (pageSize). It cannot match a namespace on either side, filter on
+ * end_time or sort by volume, so those stay client-side.
+ */
+export function planWhiskerQuery(query: FlowQuery = {}): WhiskerQueryPlan {
+  const params: Record<string, string> = {};
+  const pushedDown: FlowQueryCriterion[] = [];
+  const clientSide: FlowQueryCriterion[] = [];
+
+  if (query.startTime) {
+    const seconds = toUnixSeconds(query.startTime);
+    if (seconds !== null) {
+      params.startTimeGte = String(Math.floor(seconds));
+    }
+    // The backend works in whole seconds, so a fractional bound is trimmed client-side
+    if (seconds !== null && Number.isInteger(seconds)) {
+      pushedDown.push('startTime');
+    } else {
+      clientSide.push('startTime');
+    }
+  }
+
+  if (query.endTime) {
+    const seconds = toUnixSeconds(query.endTime);
+    if (seconds !== null) {
+      // The backend bounds start_time; flows ending by endTime also start by then
+      params.startTimeLt = String(Math.floor(seconds) + 1);
+    }
+    clientSide.push('endTime');
+  }
+
+  const filters: Record<string, unknown> = {};
+  if (query.sourceNamespace) {
+    filters.source_namespaces = [{ type: 'Exact', value: query.sourceNamespace }];
+    pushedDown.push('sourceNamespace');
+  }
+  if (query.destNamespace) {
+    filters.dest_namespaces = [{ type: 'Exact', value: query.destNamespace }];
+    pushedDown.push('destNamespace');
+  }
+  if (query.namespace) {
+    clientSide.push('namespace');
+  }
+  if (query.action) {
+    filters.actions = [query.action];
+    pushedDown.push('action');
+  }
+  if (Object.keys(filters).length > 0) {
+    params.filters = JSON.stringify(filters);
+  }
+
+  const serverSort = !query.sortBy || (query.sortBy === 'time' && query.sortOrder !== 'asc');
+  if (query.sortBy) {
+    if (serverSort) {
+      params.sortBy = 'Time';
+      pushedDown.push('sort');
+    } else {
+      clientSide.push('sort');
+    }
+  }
+
+  if (query.pageSize !== undefined) {
+    // A page is only correct server-side if every other criterion was applied there too
+    if (serverSort && clientSide.length === 0) {
+      params.pageSize = String(query.pageSize);
+      pushedDown.push('pageSize');
+    } else {
+      clientSide.push('pageSize');
+    }
+  }
+
+  return { params, pushedDown, clientSide };
+}
+
+/**
+ * Apply the given criteria of a query to flows in memory.
+ */
+export function applyFlowQuery(logs: FlowLog[], query: FlowQuery, criteria: FlowQueryCriterion[]): FlowLog[] {
+  let result = logs.filter(log => {
+    if (criteria.includes('startTime') && !inTimeRange(log, { startTime: query.startTime })) return false;
+    if (criteria.includes('endTime') && !inTimeRange(log, { endTime: query.endTime })) return false;
+    if (criteria.includes('namespace') && query.namespace
+      && log.source_namespace !== query.namespace && log.dest_namespace !== query.namespace) return false;
+    if (criteria.includes('sourceNamespace') && query.sourceNamespace && log.source_namespace !== query.sourceNamespace) return false;
+    if (criteria.includes('destNamespace') && query.destNamespace && log.dest_namespace !== query.destNamespace) return false;
+    if (criteria.includes('action') && query.action && log.action !== query.action) return false;
+    return true;
+  });
+
+  if (criteria.includes('sort') && query.sortBy) {
+    const direction = query.sortOrder === 'asc' ? 1 : -1;
+    const value = (log: FlowLog): string | number => {
+      switch (query.sortBy) {
+        case 'bytes':
+          return (log.bytes_in || 0) + (log.bytes_out || 0);
+        case 'packets':
+          return (log.packets_in || 0) + (log.packets_out || 0);
+        default:
+          return log.start_time;
+      }
+    };
+    result = [...result].sort((a, b) => {
+      const left = value(a);
+      const right = value(b);
+      return left < right ? -direction : left > right ? direction : 0;
+    });
+  }
+
+  if (criteria.includes('pageSize') && query.pageSize !== undefined) {
+    result = result.slice(0, query.pageSize);
+  }
+
+  return result;
+}
+
+/**
+ * Check an untrusted query (e.g. MCP tool arguments). Throws an Error naming the bad field.
+ */
+export function validateFlowQuery(query: FlowQuery): FlowQuery {
+  if (query.action !== undefined && !FLOW_ACTIONS.includes(query.action)) {
+    throw new Error(`action must be one of: ${FLOW_ACTIONS.join(', ')}`);
+  }
+  if (query.sortBy !== undefined && !['time', 'bytes', 'packets'].includes(query.sortBy)) {
+    throw new Error('sortBy must be one of: time, bytes, packets');
+  }
+  if (query.sortOrder !== undefined && query.sortOrder !== 'asc' && query.sortOrder !== 'desc') {
+    throw new Error('sortOrder must be "asc" or "desc"');
+  }
+  if (query.pageSize !== undefined && (!Number.isInteger(query.pageSize) || query.pageSize < 1)) {
+    throw new Error('pageSize must be a positive integer');
+  }
+  return query;
+}
+
+function toUnixSeconds(timestamp: string): number | null {
+  const time = Date.parse(timestamp);
+  return Number.isNaN(time) ? null : time / 1000;
+}
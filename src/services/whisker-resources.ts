@@ -0,0 +1,201 @@
+import { createHash } from 'crypto';
+import { POLICY_KINDS } from './calico-whisker.js';
+import { ClusterSessionManager } from './cluster-sessions.js';
+
+export interface WhiskerResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface WhiskerResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+export interface WhiskerResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+const SCHEME = 'whisker://';
+// Placeholder namespace segment for cluster-scoped policies (GlobalNetworkPolicy)
+const CLUSTER_SCOPE = '-';
+const DEFAULT_SUBSCRIPTION_INTERVAL_SECONDS = 30;
+
+export const WHISKER_RESOURCE_TEMPLATES: WhiskerResourceTemplate[] = [
+  {
+    uriTemplate: 'whisker://namespaces/{namespace}/summary',
+    name: 'Namespace flow summary',
+    description: 'Aggregated flows where the namespace is source or destination. Append ?cluster=<session> to read another cluster',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'whisker://policies/{kind}/{namespace}/{name}',
+    name: 'Network policy',
+    description: `Policy YAML; kind is one of ${POLICY_KINDS.join(', ')}. Use "${CLUSTER_SCOPE}" as the namespace for GlobalNetworkPolicy`,
+    mimeType: 'application/yaml',
+  },
+];
+
+/**
+ * Reads flow data for MCP resource URIs. Resources use the default cluster session unless
+ * the URI has a `cluster` query parameter.
+ */
+export class WhiskerResourceProvider {
+  constructor(private readonly sessions: ClusterSessionManager) {}
+
+  /**
+   * Concrete resources: blocked flows, plus a summary for every namespace seen in current flows.
+   */
+  async list(): Promise<WhiskerResource[]> {
+    const resources: WhiskerResource[] = [
+      {
+        uri: 'whisker://flows/blocked',
+        name: 'Blocked flows',
+        description: 'Flows denied by network policy',
+        mimeType: 'application/json',
+      },
+    ];
+
+    try {
+      const logs = await this.sessions.get().calicoService.getFlowLogs();
+      const namespaces = new Set<string>();
+      logs.forEach(log => {
+        if (log.source_namespace) namespaces.add(log.source_namespace);
+        if (log.dest_namespace) namespaces.add(log.dest_namespace);
+      });
+      Array.from(namespaces).sort().forEach(namespace => {
+        resources.push({
+          uri: `whisker://namespaces/${encodeURIComponent(namespace)}/summary`,
+          name: `Flow summary for ${namespace}`,
+          mimeType: 'application/json',
+        });
+      });
+    } catch (error) {
+      // Not connected yet: only the static resources are listed
+      console.error(`Could not list namespace resources: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    return resources;
+  }
+
+  async read(uri: string): Promise<WhiskerResourceContents> {
+    const { segments, cluster } = parseResourceUri(uri);
+    const { calicoService } = this.sessions.get(cluster);
+
+    if (segments.length === 2 && segments[0] === 'flows' && segments[1] === 'blocked') {
+      const logs = await calicoService.getFlowLogs({ action: 'Deny' });
+      return { uri, mimeType: 'application/json', text: JSON.stringify(logs, null, 2) };
+    }
+
+    if (segments.length === 3 && segments[0] === 'namespaces' && segments[2] === 'summary') {
+      const summary = await calicoService.getNamespaceFlowSummary(segments[1]);
+      return { uri, mimeType: 'application/json', text: summary };
+    }
+
+    if (segments.length === 4 && segments[0] === 'policies') {
+      const [, kind, namespace, name] = segments;
+      if (!POLICY_KINDS.includes(kind)) {
+        throw new Error(`Unknown policy kind "${kind}" (expected one of ${POLICY_KINDS.join(', ')})`);
+      }
+      const policy = await calicoService.retrievePolicyDetails(name, namespace === CLUSTER_SCOPE ? '' : namespace, kind);
+      if (!policy) {
+        throw new Error(`Policy ${kind} ${namespace === CLUSTER_SCOPE ? name : `${namespace}/${name}`} not found`);
+      }
+      return { uri, mimeType: 'application/yaml', text: policy };
+    }
+
+    throw new Error(`Unknown resource: ${uri}`);
+  }
+}
+
+/**
+ * Re-reads subscribed resources periodically and reports the ones whose content changed.
+ */
+export class ResourceSubscriptions {
+  private readonly digests = new Map<string, string | null>();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(
+    private readonly read: (uri: string) => Promise<string>,
+    private readonly onUpdated: (uri: string) => Promise<void>,
+    private readonly intervalSeconds = DEFAULT_SUBSCRIPTION_INTERVAL_SECONDS
+  ) {}
+
+  async subscribe(uri: string): Promise<void> {
+    // Validates the URI and records the baseline, so the first update is a real change
+    parseResourceUri(uri);
+    this.digests.set(uri, await this.digest(uri));
+    if (!this.timer) {
+      this.timer = setInterval(() => {
+        void this.poll();
+      }, this.intervalSeconds * 1000);
+      this.timer.unref();
+    }
+  }
+
+  unsubscribe(uri: string): void {
+    this.digests.delete(uri);
+    if (this.digests.size === 0) {
+      this.stop();
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+    try {
+      for (const [uri, previous] of Array.from(this.digests.entries())) {
+        const current = await this.digest(uri);
+        // Unreadable for now, or unsubscribed while the read was in flight
+        if (current === null || !this.digests.has(uri)) {
+          continue;
+        }
+        this.digests.set(uri, current);
+        if (current !== previous) {
+          try {
+            await this.onUpdated(uri);
+          } catch (error) {
+            console.error(`Failed to notify update of ${uri}: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async digest(uri: string): Promise<string | null> {
+    try {
+      return createHash('sha1').update(await this.read(uri)).digest('hex');
+    } catch {
+      // Temporarily unreadable (e.g. reconnecting); compare again on the next poll
+      return null;
+    }
+  }
+}
+
+function parseResourceUri(uri: string): { segments: string[]; cluster?: string } {
+  if (!uri.startsWith(SCHEME)) {
+    throw new Error(`Unsupported resource URI: ${uri} (expected ${SCHEME}...)`);
+  }
+  const [path, queryString] = uri.slice(SCHEME.length).split('?', 2);
+  const segments = path.split('/').filter(segment => segment.length > 0).map(decodeURIComponent);
+  const cluster = queryString ? new URLSearchParams(queryString).get('cluster') || undefined : undefined;
+  return { segments, cluster };
+}